@@ -1,5 +1,5 @@
 import React from 'react';
-import { HashRouter, Routes, Route } from 'react-router-dom';
+import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import Dashboard from './pages/Dashboard';
 import Viewer from './pages/Viewer';
 
@@ -7,17 +7,23 @@ import Viewer from './pages/Viewer';
  * Main App Component
  * 
  * Routes:
- * - / (or no hash) -> Dashboard (creator mode)
- * - /go?p=... -> Viewer (visitor mode)
+ * - / -> Dashboard (creator mode)
+ * - /go/:payload (or /go?p=...) -> Viewer (visitor mode)
+ * - /s/:code -> Viewer, payload looked up in the short-link store
+ *
+ * Legacy hash links (/#/go?p=...) are rewritten to these paths before
+ * the router starts (see upgradeLegacyUrl in utils/linkRoutes.ts).
  */
 const App: React.FC = () => {
   return (
-    <HashRouter>
+    <BrowserRouter>
       <Routes>
+        <Route path="/go/:payload" element={<Viewer />} />
         <Route path="/go" element={<Viewer />} />
+        <Route path="/s/:code" element={<Viewer />} />
         <Route path="*" element={<Dashboard />} />
       </Routes>
-    </HashRouter>
+    </BrowserRouter>
   );
 };
 
@@ -0,0 +1,79 @@
+/**
+ * CSV Utilities
+ * Minimal RFC 4180 reader/writer for the `batch` command
+ * (quoted fields, doubled quotes, commas and newlines inside quotes)
+ */
+
+export type CsvRow = Record<string, string>;
+
+/**
+ * Splits CSV text into rows of fields
+ */
+const parseRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      record.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no row
+  return records.filter(r => r.length > 1 || r[0].trim() !== '');
+};
+
+/**
+ * Parses CSV text with a header row into objects keyed by column name
+ * Column names are trimmed and lowercased
+ */
+export const parseCsv = (text: string): { columns: string[]; rows: CsvRow[] } => {
+  const [header = [], ...records] = parseRecords(text.replace(/^﻿/, ''));
+  const columns = header.map(name => name.trim().toLowerCase());
+  const rows = records.map(record => {
+    const row: CsvRow = {};
+    columns.forEach((name, i) => {
+      row[name] = (record[i] || '').trim();
+    });
+    return row;
+  });
+  return { columns, rows };
+};
+
+const formatField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Formats rows as CSV text with a header row
+ */
+export const formatCsv = (columns: string[], rows: CsvRow[]): string =>
+  [columns, ...rows.map(row => columns.map(name => row[name] || ''))]
+    .map(fields => fields.map(formatField).join(','))
+    .join('\n') + '\n';
@@ -0,0 +1,368 @@
+/**
+ * ParaLink Command Line Tool
+ * Generates, decodes and batch-processes links with the same payload code
+ * as the Dashboard and Viewer (utils/payload.ts).
+ *
+ * Usage: npm run paralink -- <command> [options]
+ *
+ * Outside the browser there is no page origin, so commands that create
+ * links need --origin (or PARALINK_ORIGIN) naming the deployment.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parse as parseYaml } from 'yaml';
+import { generateParaLink, LinkPayload, parsePayload } from '../utils/payload';
+import { validatePayload } from '../utils/validation';
+import { decryptPayload, isEncryptedPayload } from '../utils/encryption';
+import { importParaLink, readParaLink } from '../utils/linkImport';
+import { verifyPayload } from '../utils/signing';
+import { LinkRouteStyle } from '../utils/linkRoutes';
+import { getBioBlocks } from '../utils/bioBlocks';
+import { CsvRow, formatCsv, parseCsv } from './csv';
+
+const USAGE = `Usage: npm run paralink -- <command> [options]
+
+Commands:
+  encode <file>        Turn a JSON or YAML payload file ("-" for stdin) into a link
+  decode <link>        Print the payload of a link as JSON
+  inspect <link>       Describe a link: format, size, signature and destinations
+  batch <in.csv>       Turn a CSV of destinations into a CSV of links
+
+Options:
+  --origin <url>       Deployment the links point at (default: $PARALINK_ORIGIN)
+  --passphrase <text>  Encrypt new links, or unlock encrypted ones
+  --key-in-link        Carry the passphrase inside new links
+  --route-style <s>    Style of new links: path (/go/…, default) or hash (/#/go?p=…)
+  --out <file>         Write the batch CSV here instead of stdout
+
+Batch CSV columns: url (required), title, open_in_app, not_before, not_after.
+Dates are ISO 8601 (e.g. 2025-06-01T09:00) or epoch milliseconds.
+`;
+
+/**
+ * Error shown to the user without a stack trace
+ */
+class CliError extends Error {}
+
+const fail = (message: string): never => {
+  throw new CliError(message);
+};
+
+/**
+ * Gets the origin for new links from --origin or PARALINK_ORIGIN
+ */
+const getOrigin = (value: string | undefined): string => {
+  const origin = value || process.env.PARALINK_ORIGIN;
+  if (!origin) {
+    return fail('Pass --origin https://your-paralink.example (or set PARALINK_ORIGIN).');
+  }
+  try {
+    const url = new URL(origin);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error();
+    return url.origin;
+  } catch (e) {
+    return fail(`--origin must be an http(s) URL, got "${origin}".`);
+  }
+};
+
+const readInput = (path: string): string => {
+  try {
+    return readFileSync(path === '-' ? 0 : path, 'utf8');
+  } catch (e) {
+    return fail(`Cannot read ${path === '-' ? 'stdin' : path}.`);
+  }
+};
+
+/**
+ * Converts a date cell or field (ISO 8601 or epoch ms) to epoch ms
+ */
+const parseTimestamp = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value;
+  const text = String(value).trim();
+  const timestamp = /^\d+$/.test(text) ? Number(text) : new Date(text).getTime();
+  return Number.isNaN(timestamp) ? fail(`${field} is not a date: "${text}"`) : timestamp;
+};
+
+/**
+ * Lets payload files write notBefore / notAfter as ISO dates
+ */
+const normalizeSchedule = (item: Record<string, unknown>, path: string) => {
+  for (const key of ['notBefore', 'notAfter']) {
+    if (typeof item[key] === 'string' || item[key] instanceof Date) {
+      item[key] = parseTimestamp(item[key] instanceof Date ? (item[key] as Date).getTime() : item[key], `${path}${key}`);
+    }
+  }
+};
+
+/**
+ * Reads a payload file and validates it like the Dashboard does
+ */
+const readPayloadFile = (path: string): LinkPayload => {
+  const text = readInput(path);
+  let data: unknown;
+  try {
+    data = extname(path).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    return fail(`${path} is not valid ${extname(path).toLowerCase() === '.json' ? 'JSON' : 'YAML'}: ${e instanceof Error ? e.message : e}`);
+  }
+
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const record = data as Record<string, unknown>;
+    normalizeSchedule(record, '');
+    for (const key of ['links', 'blocks']) {
+      if (Array.isArray(record[key])) {
+        (record[key] as unknown[]).forEach((item, i) => {
+          if (item && typeof item === 'object') normalizeSchedule(item as Record<string, unknown>, `${key}[${i}].`);
+        });
+      }
+    }
+  }
+
+  const result = validatePayload(data);
+  if (result.ok === false) {
+    return fail(`${path}: ${result.error.message}`);
+  }
+  return result.payload;
+};
+
+const encodeCommand = async (file: string, options: CliOptions) => {
+  const payload = readPayloadFile(file);
+  const link = await generateParaLink(payload, {
+    origin: getOrigin(options.origin),
+    passphrase: options.passphrase,
+    includeKey: options['key-in-link'],
+    routeStyle: options['route-style'] as LinkRouteStyle
+  });
+  console.log(link);
+};
+
+/**
+ * Decodes a link, unlocking it with --passphrase or the key inside it
+ * Links are accepted from any origin unless --origin is given
+ */
+const decodeLink = async (link: string, options: CliOptions): Promise<LinkPayload> => {
+  const origin = options.origin ? getOrigin(options.origin) : originOf(link);
+  const result = await importParaLink(link, options.passphrase || '', origin);
+  if (result.ok === false) {
+    return fail(result.message);
+  }
+  return result.payload;
+};
+
+const originOf = (link: string): string => {
+  try {
+    return new URL(link.trim()).origin;
+  } catch (e) {
+    return fail('Pass the full link, starting with https://');
+  }
+};
+
+const decodeCommand = async (link: string, options: CliOptions) => {
+  console.log(JSON.stringify(await decodeLink(link, options), null, 2));
+};
+
+/**
+ * Describes how a payload string is encoded
+ */
+const describeFormat = (encoded: string): string => {
+  const version = decodeURIComponent(encoded).match(/^(\d+)\./);
+  return version ? `v${version[1]}` : 'v0 (legacy base64)';
+};
+
+const formatDate = (timestamp?: number): string =>
+  typeof timestamp === 'number' ? new Date(timestamp).toISOString() : '-';
+
+/**
+ * Lists where a payload can send visitors
+ */
+const describeDestinations = (payload: LinkPayload): string[] => {
+  switch (payload.mode) {
+    case 'smart':
+      return [
+        ...(payload.rules || []).map((rule, i) => `rule ${i + 1}${rule.label ? ` (${rule.label})` : ''}: ${rule.url}  when ${JSON.stringify(rule.when)}`),
+        `default: ${payload.url}`
+      ];
+    case 'split':
+      return (payload.variants || []).map(v => `variant ${v.id} (weight ${v.weight}): ${v.url}`);
+    case 'bio':
+      return getBioBlocks(payload).flatMap(block =>
+        block.type === 'link' ? [`${block.title}: ${block.url}`] : block.type === 'social' ? block.urls : []
+      );
+    default:
+      return [payload.url || ''];
+  }
+};
+
+const inspectCommand = async (link: string, options: CliOptions) => {
+  const origin = options.origin ? getOrigin(options.origin) : originOf(link);
+  const parts = readParaLink(link, origin);
+  if (parts.ok === false) {
+    return fail(parts.message);
+  }
+
+  const lines: [string, string][] = [
+    ['Link', `${link.trim().length} characters`],
+    ['Payload', `${parts.encoded.length} characters`]
+  ];
+
+  let encoded = parts.encoded;
+  if (isEncryptedPayload(encoded)) {
+    const key = options.passphrase || parts.key;
+    lines.push(['Encrypted', parts.key ? 'yes, key inside the link' : 'yes, passphrase shared separately']);
+    const inner = key ? await decryptPayload(encoded, key).catch(() => null) : null;
+    if (inner === null) {
+      lines.forEach(([label, value]) => console.log(`${label.padEnd(14)}${value}`));
+      return fail(key ? 'The passphrase is not correct.' : 'Pass --passphrase to see inside this link.');
+    }
+    encoded = inner;
+  }
+  lines.push(['Format', describeFormat(encoded)]);
+
+  const result = parsePayload(encoded);
+  if (result.ok === false) {
+    lines.forEach(([label, value]) => console.log(`${label.padEnd(14)}${value}`));
+    return fail(`Payload is not readable (${result.error.kind}): ${result.error.message}`);
+  }
+  const payload = result.payload;
+
+  const signature = await verifyPayload(payload);
+  lines.push(
+    ['Mode', payload.mode],
+    ['Signature', payload.sig ? `${signature.status} (key ${payload.sig.kid})` : 'unsigned'],
+    ['Available', `${formatDate(payload.notBefore)} → ${formatDate(payload.notAfter)}`]
+  );
+  lines.forEach(([label, value]) => console.log(`${label.padEnd(14)}${value}`));
+  console.log('Destinations');
+  describeDestinations(payload).forEach(d => console.log(`  - ${d}`));
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+
+/**
+ * Builds a direct-link payload from a batch CSV row
+ */
+const payloadFromRow = (row: CsvRow, line: number): LinkPayload => {
+  if (!row.url) {
+    return fail(`line ${line}: url is empty`);
+  }
+  const payload: LinkPayload = { mode: 'direct', url: row.url };
+  if (row.title) payload.title = row.title;
+  if (TRUE_VALUES.includes((row.open_in_app || '').toLowerCase())) payload.openInApp = true;
+  const notBefore = parseTimestamp(row.not_before, `line ${line}: not_before`);
+  const notAfter = parseTimestamp(row.not_after, `line ${line}: not_after`);
+  if (notBefore !== undefined) payload.notBefore = notBefore;
+  if (notAfter !== undefined) payload.notAfter = notAfter;
+
+  const result = validatePayload(payload);
+  if (result.ok === false) {
+    return fail(`line ${line}: ${result.error.message}`);
+  }
+  return result.payload;
+};
+
+/**
+ * Generates one link per CSV row
+ * Rows that fail keep going: their `error` column says why and the exit code is 1
+ */
+const batchCommand = async (file: string, options: CliOptions) => {
+  const origin = getOrigin(options.origin);
+  const { columns, rows } = parseCsv(readInput(file));
+  if (!columns.includes('url')) {
+    return fail(`${file} needs a header row with a "url" column.`);
+  }
+
+  let failed = 0;
+  const output: CsvRow[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    try {
+      const link = await generateParaLink(payloadFromRow(row, i + 2), {
+        origin,
+        passphrase: options.passphrase,
+        includeKey: options['key-in-link'],
+        routeStyle: options['route-style'] as LinkRouteStyle
+      });
+      output.push({ ...row, link, error: '' });
+    } catch (e) {
+      if (!(e instanceof CliError)) throw e;
+      failed++;
+      output.push({ ...row, link: '', error: e.message });
+    }
+  }
+
+  const outColumns = [...columns.filter(c => c !== 'link' && c !== 'error'), 'link', 'error'];
+  const csv = formatCsv(outColumns, output);
+  if (options.out) {
+    writeFileSync(options.out, csv);
+  } else {
+    process.stdout.write(csv);
+  }
+  console.error(`${rows.length - failed} of ${rows.length} links generated${options.out ? ` → ${options.out}` : ''}.`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+};
+
+interface CliOptions {
+  origin?: string;
+  passphrase?: string;
+  'key-in-link'?: boolean;
+  'route-style'?: string;
+  out?: string;
+  help?: boolean;
+}
+
+const COMMANDS: Record<string, (arg: string, options: CliOptions) => Promise<void>> = {
+  encode: encodeCommand,
+  decode: decodeCommand,
+  inspect: inspectCommand,
+  batch: batchCommand
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      origin: { type: 'string' },
+      passphrase: { type: 'string' },
+      'key-in-link': { type: 'boolean' },
+      'route-style': { type: 'string' },
+      out: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  const [command, arg] = positionals;
+
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (!COMMANDS[command] || !arg) {
+    process.stderr.write(COMMANDS[command] ? `Missing argument for ${command}.\n\n${USAGE}` : `Unknown command "${command}".\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (values['key-in-link'] && !values.passphrase) {
+    fail('--key-in-link needs --passphrase.');
+  }
+  if (values['route-style'] && values['route-style'] !== 'path' && values['route-style'] !== 'hash') {
+    fail('--route-style must be "path" or "hash".');
+  }
+  await COMMANDS[command](arg, values);
+};
+
+main().catch(e => {
+  if (e instanceof CliError) {
+    console.error(`paralink: ${e.message}`);
+    process.exitCode = 1;
+  } else if (e && typeof e.code === 'string' && e.code.startsWith('ERR_PARSE_ARGS')) {
+    console.error(`paralink: ${e.message}`);
+    process.exitCode = 2;
+  } else {
+    console.error(e);
+    process.exitCode = 1;
+  }
+});
@@ -0,0 +1,315 @@
+import React from 'react';
+import {
+  Plus, Trash2, Clock, Smartphone, Star, ChevronUp, ChevronDown, Link2, Heading, TextAlignStart, Minus, Share2, Image
+} from 'lucide-react';
+import { ScheduleFields, ScheduleDraft, scheduleFromDraft, scheduleToDraft } from './ScheduleFields';
+import { BioBlock, MAX_BIO_TEXT_LENGTH } from '../utils/bioBlocks';
+import { getDeepLinkApp } from '../utils/deeplinks';
+import { detectSocialPlatform } from '../utils/social';
+
+export interface BioLinkDraft extends ScheduleDraft {
+  type: 'link';
+  title: string;
+  url: string;
+  showSchedule?: boolean;
+  openInApp?: boolean;
+  featured?: boolean;
+}
+
+export type BioBlockDraft =
+  | BioLinkDraft
+  | { type: 'avatar'; url: string }
+  | { type: 'header'; text: string }
+  | { type: 'text'; text: string }
+  | { type: 'divider' }
+  | { type: 'social'; urls: string }; // One URL per line
+
+export const EMPTY_BIO_LINK: BioLinkDraft = { type: 'link', title: '', url: '', notBefore: '', notAfter: '' };
+
+const NEW_BLOCKS: Record<BioBlockDraft['type'], BioBlockDraft> = {
+  link: EMPTY_BIO_LINK,
+  header: { type: 'header', text: '' },
+  text: { type: 'text', text: '' },
+  divider: { type: 'divider' },
+  social: { type: 'social', urls: '' },
+  avatar: { type: 'avatar', url: '' }
+};
+
+const ADD_BUTTONS: { type: BioBlockDraft['type']; label: string; icon: React.ElementType }[] = [
+  { type: 'link', label: 'Link', icon: Link2 },
+  { type: 'header', label: 'Header', icon: Heading },
+  { type: 'text', label: 'Text', icon: TextAlignStart },
+  { type: 'divider', label: 'Divider', icon: Minus },
+  { type: 'social', label: 'Socials', icon: Share2 },
+  { type: 'avatar', label: 'Avatar', icon: Image }
+];
+
+/**
+ * Adds https:// to URLs typed without a scheme
+ */
+const withScheme = (url: string): string => {
+  const u = url.trim();
+  return /^https?:\/\//i.test(u) ? u : 'https://' + u;
+};
+
+/**
+ * Splits the social URL box into URLs (one per line, commas also work)
+ */
+const splitUrls = (urls: string): string[] =>
+  urls.split(/[\n,]/).map(u => u.trim()).filter(Boolean).map(withScheme);
+
+/**
+ * Converts block drafts to payload blocks, skipping unfinished ones
+ */
+export const bioBlocksFromDrafts = (drafts: BioBlockDraft[]): BioBlock[] => {
+  const blocks: BioBlock[] = [];
+  for (const draft of drafts) {
+    if (draft.type === 'link') {
+      if (!draft.url.trim() || !draft.title.trim()) continue;
+      const url = withScheme(draft.url);
+      blocks.push({
+        type: 'link',
+        title: draft.title.trim(),
+        url,
+        ...(draft.openInApp && getDeepLinkApp(url) ? { openInApp: true } : {}),
+        ...(draft.featured ? { featured: true } : {}),
+        ...scheduleFromDraft(draft)
+      });
+    } else if (draft.type === 'avatar') {
+      if (draft.url.trim()) blocks.push({ type: 'avatar', url: withScheme(draft.url) });
+    } else if (draft.type === 'header' || draft.type === 'text') {
+      if (draft.text.trim()) blocks.push({ type: draft.type, text: draft.text.trim() });
+    } else if (draft.type === 'social') {
+      const urls = splitUrls(draft.urls);
+      if (urls.length > 0) blocks.push({ type: 'social', urls });
+    } else {
+      blocks.push({ type: 'divider' });
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Converts payload blocks back to drafts for editing
+ */
+export const bioBlocksToDrafts = (blocks: BioBlock[]): BioBlockDraft[] =>
+  blocks.map((block): BioBlockDraft => {
+    switch (block.type) {
+      case 'link':
+        return {
+          type: 'link',
+          title: block.title,
+          url: block.url,
+          showSchedule: block.notBefore !== undefined || block.notAfter !== undefined,
+          openInApp: !!block.openInApp,
+          featured: !!block.featured,
+          ...scheduleToDraft(block)
+        };
+      case 'social':
+        return { type: 'social', urls: block.urls.join('\n') };
+      default:
+        return { ...block };
+    }
+  });
+
+interface BioBlockEditorProps {
+  blocks: BioBlockDraft[];
+  onChange: (blocks: BioBlockDraft[]) => void;
+}
+
+/**
+ * BioBlockEditor Component
+ *
+ * Ordered list of bio page blocks: links (with app, featured and
+ * schedule toggles), headers, text, dividers, social icons and an avatar.
+ */
+export const BioBlockEditor: React.FC<BioBlockEditorProps> = ({ blocks, onChange }) => {
+  const hasAvatar = blocks.some(b => b.type === 'avatar');
+  const linkCount = blocks.filter(b => b.type === 'link').length;
+
+  const update = (idx: number, changes: object) => {
+    const newBlocks = [...blocks];
+    newBlocks[idx] = { ...newBlocks[idx], ...changes } as BioBlockDraft;
+    onChange(newBlocks);
+  };
+
+  const move = (idx: number, offset: number) => {
+    const newBlocks = [...blocks];
+    const [block] = newBlocks.splice(idx, 1);
+    newBlocks.splice(idx + offset, 0, block);
+    onChange(newBlocks);
+  };
+
+  const inputClass = 'px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none';
+
+  const renderFields = (block: BioBlockDraft, idx: number) => {
+    switch (block.type) {
+      case 'link': {
+        const app = getDeepLinkApp(block.url);
+        return (
+          <>
+            <input
+              type="text"
+              placeholder="Title"
+              value={block.title}
+              onChange={(e) => update(idx, { title: e.target.value })}
+              className={`w-1/3 ${inputClass}`}
+            />
+            <input
+              type="text"
+              placeholder="URL"
+              value={block.url}
+              onChange={(e) => update(idx, { url: e.target.value })}
+              className={`flex-1 ${inputClass}`}
+            />
+            {app && (
+              <button
+                onClick={() => update(idx, { openInApp: !block.openInApp })}
+                className={`p-2 transition-colors ${
+                  block.openInApp ? 'text-brand-teal' : 'text-gray-400 hover:text-gray-600'
+                }`}
+                aria-label={`Open in the ${app} app`}
+                title={`Open in the ${app} app when installed`}
+              >
+                <Smartphone className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => update(idx, { featured: !block.featured })}
+              className={`p-2 transition-colors ${
+                block.featured ? 'text-amber-500' : 'text-gray-400 hover:text-gray-600'
+              }`}
+              aria-label="Feature link"
+              title="Highlight this link"
+            >
+              <Star className={`w-4 h-4 ${block.featured ? 'fill-current' : ''}`} />
+            </button>
+            <button
+              onClick={() => update(idx, { showSchedule: !block.showSchedule })}
+              className={`p-2 transition-colors ${
+                block.showSchedule || block.notBefore || block.notAfter
+                  ? 'text-brand-teal'
+                  : 'text-gray-400 hover:text-gray-600'
+              }`}
+              aria-label="Schedule link"
+            >
+              <Clock className="w-4 h-4" />
+            </button>
+          </>
+        );
+      }
+      case 'avatar':
+        return (
+          <input
+            type="text"
+            placeholder="Avatar image URL"
+            value={block.url}
+            onChange={(e) => update(idx, { url: e.target.value })}
+            className={`flex-1 ${inputClass}`}
+          />
+        );
+      case 'header':
+        return (
+          <input
+            type="text"
+            placeholder="Section header"
+            value={block.text}
+            maxLength={MAX_BIO_TEXT_LENGTH}
+            onChange={(e) => update(idx, { text: e.target.value })}
+            className={`flex-1 font-semibold ${inputClass}`}
+          />
+        );
+      case 'text':
+        return (
+          <textarea
+            placeholder="A short description"
+            value={block.text}
+            maxLength={MAX_BIO_TEXT_LENGTH}
+            rows={2}
+            onChange={(e) => update(idx, { text: e.target.value })}
+            className={`flex-1 resize-none ${inputClass}`}
+          />
+        );
+      case 'social':
+        return (
+          <div className="flex-1 space-y-1">
+            <textarea
+              placeholder={'Profile URLs, one per line\ninstagram.com/you'}
+              value={block.urls}
+              rows={3}
+              onChange={(e) => update(idx, { urls: e.target.value })}
+              className={`w-full resize-none ${inputClass}`}
+            />
+            {splitUrls(block.urls).length > 0 && (
+              <p className="text-xs text-gray-500">
+                {splitUrls(block.urls).map(url => detectSocialPlatform(url).label).join(' · ')}
+              </p>
+            )}
+          </div>
+        );
+      default:
+        return <hr className="flex-1 border-gray-300" />;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {blocks.map((block, idx) => (
+        <div key={idx} className="space-y-2">
+          <div className="flex gap-2 items-center">
+            {renderFields(block, idx)}
+            <button
+              onClick={() => move(idx, -1)}
+              disabled={idx === 0}
+              className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30 transition-colors"
+              aria-label="Move block up"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => move(idx, 1)}
+              disabled={idx === blocks.length - 1}
+              className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30 transition-colors"
+              aria-label="Move block down"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            {(block.type !== 'link' || linkCount > 1) && (
+              <button
+                onClick={() => onChange(blocks.filter((_, i) => i !== idx))}
+                className="p-2 text-red-400 hover:text-red-600 transition-colors"
+                aria-label="Remove block"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {block.type === 'link' && block.showSchedule && (
+            <ScheduleFields
+              compact
+              value={block}
+              onChange={(value) => update(idx, value)}
+            />
+          )}
+        </div>
+      ))}
+
+      {/* Add Block */}
+      <div className="flex flex-wrap gap-2">
+        {ADD_BUTTONS.filter(b => b.type !== 'avatar' || !hasAvatar).map(({ type, label, icon: Icon }) => (
+          <button
+            key={type}
+            onClick={() => onChange(type === 'avatar'
+              ? [{ ...NEW_BLOCKS.avatar }, ...blocks]
+              : [...blocks, { ...NEW_BLOCKS[type] }])}
+            className="text-sm text-brand-teal font-medium flex items-center hover:underline"
+          >
+            <Plus className="w-3 h-3" />
+            <Icon className="w-4 h-4 mx-1" />
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,58 +1,207 @@
-import React from 'react';
-import { User, ExternalLink, ShieldCheck } from 'lucide-react';
+import React, { useState } from 'react';
+import {
+  User, ExternalLink, ShieldCheck, ShieldAlert, Star, Instagram, Youtube, Twitter, Facebook, Linkedin,
+  Github, Twitch, Music, Music2, MessageCircle, Send, MessagesSquare, Pin, AtSign, Ghost, Globe
+} from 'lucide-react';
 import { LinkItem } from '../utils/payload';
+import { BioBlock, LinkBlock } from '../utils/bioBlocks';
+import { detectSocialPlatform, SocialPlatform } from '../utils/social';
+import { SignatureCheck } from '../utils/signing';
+import { isWithinWindow } from '../utils/schedule';
+import { useTrackEvent } from './EnvironmentContext';
+import { BioTheme, contrastColor, getBackgroundStyle, getButtonStyle, resolveTheme, THEME_FONTS, withAlpha } from '../utils/theme';
 
 interface BioPageProps {
   profileName: string;
-  links: LinkItem[];
-  onLinkClick: (url: string) => void;
+  blocks: BioBlock[]; // See getBioBlocks() for legacy link-only payloads
+  onLinkClick: (link: LinkItem, index: number) => void;
+  signature?: SignatureCheck | null;
+  theme?: BioTheme | null;
 }
 
+const SOCIAL_ICONS: Record<SocialPlatform, React.ElementType> = {
+  instagram: Instagram,
+  tiktok: Music2,
+  youtube: Youtube,
+  x: Twitter,
+  threads: AtSign,
+  facebook: Facebook,
+  linkedin: Linkedin,
+  github: Github,
+  twitch: Twitch,
+  spotify: Music,
+  discord: MessageCircle,
+  telegram: Send,
+  whatsapp: MessageCircle,
+  snapchat: Ghost,
+  pinterest: Pin,
+  reddit: MessagesSquare,
+  website: Globe
+};
+
 /**
  * BioPage Component
  * 
  * Displays a landing page with multiple links.
  * Used when a creator generates a bio page with multiple destinations.
+ * Content is a list of blocks: avatar, description, headers, dividers,
+ * a social icon row, and (optionally featured) links.
+ * Signed pages show a verified badge; tampered ones show a warning banner.
+ * Links outside their activation window are hidden.
+ * Colors, fonts and button shapes come from the page's theme.
+ * Link clicks are reported to analytics by the link's position on the page.
  */
 export const BioPage: React.FC<BioPageProps> = ({ 
   profileName, 
-  links, 
-  onLinkClick 
+  blocks, 
+  onLinkClick,
+  signature,
+  theme
 }) => {
+  const [avatarFailed, setAvatarFailed] = useState(false);
+  const track = useTrackEvent();
+  const verified = signature?.status === 'verified';
+  const tampered = signature?.status === 'invalid';
+  const linkCount = blocks.filter(block => block.type === 'link').length;
+  const visibleBlocks = blocks.filter(block => block.type !== 'avatar' && (block.type !== 'link' || isWithinWindow(block)));
+  const activeLinkCount = visibleBlocks.filter(block => block.type === 'link').length;
+  const avatar = blocks.find(block => block.type === 'avatar');
+  const avatarUrl = avatar && avatar.type === 'avatar' && !avatarFailed ? avatar.url : null;
+  const resolved = resolveTheme(theme);
+  const buttonStyle = getButtonStyle(resolved);
+  // Featured links always get a solid accent background
+  const featuredStyle = getButtonStyle({
+    ...resolved,
+    button: resolved.button === 'glass' || resolved.button === 'outline' ? 'filled' : resolved.button
+  });
+
+  // Position among all links (including scheduled ones that are hidden),
+  // so analytics indexes stay stable for the life of the link
+  const handleLinkClick = (link: LinkBlock, index: number) => {
+    track({ type: 'link_clicked', index: blocks.filter(block => block.type === 'link').indexOf(link) });
+    onLinkClick(link, index);
+  };
+
+  const renderLink = (link: LinkBlock, index: number) => (
+    <button
+      key={index}
+      onClick={() => handleLinkClick(link, index)}
+      onTouchEnd={(e) => {
+        e.preventDefault();
+        handleLinkClick(link, index);
+      }}
+      style={link.featured ? featuredStyle : buttonStyle}
+      className={`w-full font-semibold px-6 transition-all transform hover:brightness-110 active:scale-[0.98] flex items-center justify-between group ${
+        link.featured ? 'py-5 text-lg shadow-xl' : 'py-4'
+      }`}
+    >
+      <span className="flex items-center text-left">
+        {link.featured && <Star className="w-5 h-5 mr-3 flex-shrink-0 fill-current" />}
+        {link.title}
+      </span>
+      <ExternalLink className="w-5 h-5 opacity-60 group-hover:opacity-100 transition-opacity flex-shrink-0 ml-3" />
+    </button>
+  );
+
+  const renderBlock = (block: BioBlock, index: number) => {
+    switch (block.type) {
+      case 'link':
+        return renderLink(block, index);
+      case 'header':
+        return (
+          <h2 key={index} className="pt-4 text-xs font-bold uppercase tracking-widest text-center opacity-70">
+            {block.text}
+          </h2>
+        );
+      case 'text':
+        return (
+          <p key={index} className="text-center text-sm leading-relaxed opacity-80 whitespace-pre-line">
+            {block.text}
+          </p>
+        );
+      case 'divider':
+        return <hr key={index} className="my-2 border-0 border-t" style={{ borderColor: withAlpha(resolved.text, 0.2) }} />;
+      case 'social':
+        return (
+          <div key={index} className="flex flex-wrap justify-center gap-3 py-1">
+            {block.urls.map((url, i) => {
+              const profile = detectSocialPlatform(url);
+              const Icon = SOCIAL_ICONS[profile.platform];
+              return (
+                <button
+                  key={i}
+                  onClick={() => onLinkClick({ title: profile.label, url }, index)}
+                  className="w-11 h-11 rounded-full flex items-center justify-center transition-all hover:brightness-110 active:scale-95"
+                  style={{ background: withAlpha(resolved.text, 0.1), color: resolved.text }}
+                  aria-label={profile.label}
+                  title={profile.label}
+                >
+                  <Icon className="w-5 h-5" />
+                </button>
+              );
+            })}
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 text-white flex flex-col items-center py-12 px-4">
+    <div
+      className="min-h-screen flex flex-col items-center py-12 px-4"
+      style={{ ...getBackgroundStyle(resolved.background), color: resolved.text, fontFamily: THEME_FONTS[resolved.font] }}
+    >
+      {/* Tamper Warning */}
+      {tampered && (
+        <div className="w-full max-w-md mb-8 bg-red-600 text-white rounded-xl px-4 py-3 flex items-start space-x-3 text-sm">
+          <ShieldAlert className="w-5 h-5 text-red-200 flex-shrink-0 mt-0.5" />
+          <span>
+            This page was changed after its creator signed it. The links below may not be the ones they published.
+          </span>
+        </div>
+      )}
+
       {/* Profile Avatar/Icon */}
-      <div className="w-24 h-24 bg-brand-teal rounded-full flex items-center justify-center mb-6 shadow-2xl ring-4 ring-brand-teal/30">
-        <User className="w-12 h-12 text-white" />
-      </div>
+      {avatarUrl ? (
+        <img
+          src={avatarUrl}
+          alt={profileName}
+          referrerPolicy="no-referrer"
+          onError={() => setAvatarFailed(true)}
+          className="w-24 h-24 rounded-full object-cover mb-6 shadow-2xl"
+          style={{ boxShadow: `0 0 0 4px ${withAlpha(resolved.accent, 0.3)}` }}
+        />
+      ) : (
+        <div
+          className="w-24 h-24 rounded-full flex items-center justify-center mb-6 shadow-2xl"
+          style={{ background: resolved.accent, boxShadow: `0 0 0 4px ${withAlpha(resolved.accent, 0.3)}` }}
+        >
+          <User className="w-12 h-12" style={{ color: contrastColor(resolved.accent) }} />
+        </div>
+      )}
 
       {/* Profile Name */}
       <h1 className="text-3xl font-bold mb-10 tracking-wide">{profileName}</h1>
       
-      {/* Links List */}
+      {/* Blocks */}
       <div className="w-full max-w-md space-y-3">
-        {links.map((link, i) => (
-          <button
-            key={i}
-            onClick={() => onLinkClick(link.url)}
-            onTouchEnd={(e) => {
-              e.preventDefault();
-              onLinkClick(link.url);
-            }}
-            className="w-full bg-white/10 hover:bg-white/20 backdrop-blur-md border border-white/10 text-white font-semibold py-4 px-6 rounded-xl transition-all transform active:scale-[0.98] flex items-center justify-between group"
-          >
-            <span className="text-left">{link.title}</span>
-            <ExternalLink className="w-5 h-5 text-gray-400 group-hover:text-white transition-colors flex-shrink-0 ml-3" />
-          </button>
-        ))}
+        {linkCount > 0 && activeLinkCount === 0 && (
+          <p className="text-center text-sm opacity-60">No links are available right now.</p>
+        )}
+        {visibleBlocks.map(block => renderBlock(block, blocks.indexOf(block)))}
       </div>
       
-      {/* Footer */}
-      <div className="mt-12 opacity-50 text-xs flex items-center space-x-1">
-        <ShieldCheck className="w-4 h-4" />
-        <span>Secure Link</span>
-      </div>
+      {/* Verified Badge */}
+      {verified && (
+        <div
+          className="mt-12 text-xs flex items-center space-x-1 px-3 py-1.5 rounded-full"
+          style={{ color: resolved.accent, background: withAlpha(resolved.accent, 0.1) }}
+        >
+          <ShieldCheck className="w-4 h-4" />
+          <span>Verified{signature?.key?.label ? ` · ${signature.key.label}` : ''}</span>
+        </div>
+      )}
     </div>
   );
 };
-
@@ -1,36 +1,160 @@
-import React from 'react';
-import { ArrowRight } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowRight, MoreHorizontal, MoreVertical, Share, Compass, Copy, Check, RotateCw } from 'lucide-react';
+import { BreakoutResult, waitForPageExit } from '../utils/breakout';
+import { getBreakoutInstructions, InstructionIcon } from '../utils/breakoutInstructions';
+import { useEnvironment, useTrackEvent } from './EnvironmentContext';
 
 interface BrowserBridgeProps {
-  onOpen: () => void;
+  onOpen: () => Promise<BreakoutResult> | void;
+  url: string; // Destination, for the manual "copy link" fallback
 }
 
+// Extra time after the last breakout attempt before assuming it was blocked
+const BREAKOUT_GRACE_MS = 2000;
+
+const INSTRUCTION_ICONS: Record<InstructionIcon, React.ElementType> = {
+  'dots-horizontal': MoreHorizontal,
+  'dots-vertical': MoreVertical,
+  'share': Share,
+  'browser': Compass
+};
+
+/**
+ * Copies text, falling back to a hidden textarea in webviews without the Clipboard API
+ */
+const copyText = async (text: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (e) {
+    const textarea = document.createElement('textarea');
+    textarea.value = text;
+    textarea.style.position = 'fixed';
+    textarea.style.opacity = '0';
+    document.body.appendChild(textarea);
+    textarea.select();
+    const copied = document.execCommand('copy');
+    document.body.removeChild(textarea);
+    return copied;
+  }
+};
+
 /**
  * BrowserBridge Component (Unified Browser Transition Confirmation)
- * 
+ *
  * Shown when a user is in an in-app browser and needs to transition
  * to their system browser (Safari or Chrome).
- * 
+ *
  * This component is used for BOTH:
  * - Direct link destinations
  * - Landing page outbound links
- * 
+ *
  * The button tap counts as user intent and opens the system browser.
+ * If the page is still visible after the breakout attempts (the app blocked
+ * it), the bridge switches to manual steps for this app plus a copy button.
+ * Showing, confirming and the breakout strategy used are reported to analytics.
  */
-export const BrowserBridge: React.FC<BrowserBridgeProps> = ({ onOpen }) => {
+export const BrowserBridge: React.FC<BrowserBridgeProps> = ({ onOpen, url }) => {
+  const [phase, setPhase] = useState<'idle' | 'opening' | 'fallback'>('idle');
+  const [copied, setCopied] = useState(false);
+  const mounted = useRef(true);
+  const env = useEnvironment();
+  const track = useTrackEvent();
+  const steps = useMemo(() => getBreakoutInstructions(env), [env]);
+
+  useEffect(() => {
+    mounted.current = true;
+    track({ type: 'bridge_shown' });
+    return () => {
+      mounted.current = false;
+    };
+  }, []);
+
+  const handleOpen = async () => {
+    if (phase === 'opening') return;
+    setPhase('opening');
+    track({ type: 'bridge_confirmed' });
+
+    const result = await onOpen();
+    if (result) {
+      track({ type: 'breakout_used', strategy: result.strategy, method: result.method, left: result.left });
+    }
+    const left = (result && result.left) || await waitForPageExit(BREAKOUT_GRACE_MS);
+    if (mounted.current) {
+      // Still visible: the app swallowed the breakout, offer the manual way
+      setPhase(left ? 'idle' : 'fallback');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (await copyText(url)) {
+      setCopied(true);
+      setTimeout(() => mounted.current && setCopied(false), 2000);
+    }
+  };
+
+  if (phase === 'fallback') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center p-6">
+        <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-8">
+          <h2 className="text-lg font-bold text-gray-900 mb-1 text-center">Open it in your browser</h2>
+          <p className="text-sm text-gray-500 mb-6 text-center">
+            {env.appName !== 'Web' && env.appName !== 'WebView' ? env.appName : 'This app'} kept the link inside the app. Two quick steps:
+          </p>
+
+          {/* Manual Steps */}
+          <ol className="space-y-3 mb-6">
+            {steps.map((step, i) => {
+              const Icon = INSTRUCTION_ICONS[step.icon];
+              return (
+                <li key={i} className="flex items-center space-x-3 bg-gray-50 rounded-xl px-4 py-3">
+                  <span className="w-6 h-6 rounded-full bg-black text-white text-xs font-bold flex items-center justify-center flex-shrink-0">
+                    {i + 1}
+                  </span>
+                  <Icon className="w-5 h-5 text-gray-700 flex-shrink-0" />
+                  <span className="text-sm text-gray-800">{step.text}</span>
+                </li>
+              );
+            })}
+          </ol>
+
+          {/* Copy Link */}
+          <button
+            onClick={handleCopy}
+            className="w-full py-4 bg-black text-white font-bold rounded-xl shadow-lg hover:bg-gray-800 active:scale-[0.98] transition-all flex items-center justify-center space-x-2 mb-3"
+          >
+            {copied ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+            <span>{copied ? 'Link Copied' : 'Copy Link'}</span>
+          </button>
+          <p className="text-xs text-gray-500 text-center mb-4">
+            Or paste the copied link into your browser's address bar.
+          </p>
+
+          <button
+            onClick={handleOpen}
+            className="w-full py-3 text-gray-600 font-semibold rounded-xl hover:bg-gray-100 transition flex items-center justify-center space-x-2"
+          >
+            <RotateCw className="w-4 h-4" />
+            <span>Try Again</span>
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center p-6">
       <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-8 text-center">
         {/* Primary CTA Button */}
         <button
-          onClick={onOpen}
+          onClick={handleOpen}
           onTouchEnd={(e) => {
             e.preventDefault();
-            onOpen();
+            handleOpen();
           }}
           className="w-full py-5 bg-black text-white font-bold text-lg rounded-xl shadow-lg hover:bg-gray-800 active:scale-[0.98] transition-all flex items-center justify-center space-x-2 mb-3"
         >
-          <span>Continue</span>
+          <span>{phase === 'opening' ? 'Opening…' : 'Continue'}</span>
           <ArrowRight className="w-5 h-5" />
         </button>
 
@@ -0,0 +1,79 @@
+import React from 'react';
+import { LockKeyhole, RefreshCw } from 'lucide-react';
+import { generatePassphrase } from '../utils/encryption';
+
+export interface EncryptionSettings {
+  enabled: boolean;
+  passphrase: string;
+  keyInLink: boolean; // Carry the passphrase in the link instead of sharing it separately
+}
+
+interface EncryptionPanelProps {
+  settings: EncryptionSettings;
+  onChange: (settings: EncryptionSettings) => void;
+}
+
+/**
+ * EncryptionPanel Component
+ *
+ * Dashboard controls for passphrase-protected links.
+ * Visitors either type the passphrase, or it travels inside the link
+ * so only people holding the full link can read the destinations.
+ */
+export const EncryptionPanel: React.FC<EncryptionPanelProps> = ({ settings, onChange }) => {
+  const update = (changes: Partial<EncryptionSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 space-y-3">
+      <label className="flex items-center space-x-2 text-sm font-semibold text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="rounded text-brand-teal focus:ring-brand-teal"
+        />
+        <LockKeyhole className="w-4 h-4 text-gray-400" />
+        <span>Encrypt with a passphrase</span>
+      </label>
+
+      {settings.enabled && (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Passphrase"
+              value={settings.passphrase}
+              onChange={(e) => update({ passphrase: e.target.value })}
+              className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-brand-teal outline-none"
+            />
+            <button
+              onClick={() => update({ passphrase: generatePassphrase() })}
+              className="p-2 text-gray-500 hover:text-gray-900 transition-colors"
+              aria-label="Generate random passphrase"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex flex-col space-y-1 text-sm text-gray-700">
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="radio"
+                checked={!settings.keyInLink}
+                onChange={() => update({ keyInLink: false })}
+              />
+              <span>Visitors type the passphrase</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="radio"
+                checked={settings.keyInLink}
+                onChange={() => update({ keyInLink: true })}
+              />
+              <span>Include the key in the link</span>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { createContext, useCallback, useContext, useMemo } from 'react';
+import { detectEnvironment, EnvironmentInfo } from '../utils/environment';
+import { AnalyticsEvent, trackEvent } from '../utils/analytics';
+
+// null = detect from the real browser
+const EnvironmentContext = createContext<EnvironmentInfo | null>(null);
+
+interface EnvironmentProviderProps {
+  env: EnvironmentInfo;
+  children: React.ReactNode;
+}
+
+/**
+ * EnvironmentProvider Component
+ *
+ * Overrides the environment seen by everything inside it, so components
+ * can be rendered as they would appear in another app or on another OS
+ * (used by the Dashboard preview). Without a provider, the environment
+ * is detected from navigator.userAgent.
+ */
+export const EnvironmentProvider: React.FC<EnvironmentProviderProps> = ({ env, children }) => (
+  <EnvironmentContext.Provider value={env}>{children}</EnvironmentContext.Provider>
+);
+
+/**
+ * Gets the current environment: the injected one, or the detected one
+ */
+export const useEnvironment = (): EnvironmentInfo => {
+  const injected = useContext(EnvironmentContext);
+  const detected = useMemo(() => (injected ? null : detectEnvironment()), [injected]);
+  return injected || detected!;
+};
+
+/**
+ * Gets a function that reports analytics events with the current environment
+ * Events from an injected environment (the Dashboard preview) are dropped.
+ */
+export const useTrackEvent = (): ((event: AnalyticsEvent) => void) => {
+  const injected = useContext(EnvironmentContext);
+  const env = useEnvironment();
+  return useCallback((event: AnalyticsEvent) => {
+    if (!injected) {
+      trackEvent(event, env);
+    }
+  }, [injected, env]);
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Lock, Scissors, FileWarning, AlertTriangle, Link2Off, CloudOff } from 'lucide-react';
+import { PayloadError, PayloadErrorKind } from '../utils/validation';
+
+interface LinkErrorProps {
+  error: PayloadError;
+}
+
+const ERROR_COPY: Record<PayloadErrorKind, { title: string; message: string; icon: React.ElementType }> = {
+  missing_param: {
+    title: 'Link Incomplete',
+    message: 'This link is missing its content. It may have been cut off when it was copied — ask the sender for the full link.',
+    icon: Scissors
+  },
+  bad_encoding: {
+    title: 'Link Damaged',
+    message: 'Part of this link is corrupted or was cut off. Try copying the full link again.',
+    icon: FileWarning
+  },
+  bad_json: {
+    title: 'Link Damaged',
+    message: 'The content of this link could not be read. Try copying the full link again.',
+    icon: FileWarning
+  },
+  schema: {
+    title: 'Invalid Link',
+    message: 'This link was not created correctly, or was made with an incompatible version of ParaLink.',
+    icon: AlertTriangle
+  },
+  unknown_short_link: {
+    title: 'Link Not Found',
+    message: 'This short link does not exist. Check that it was copied correctly, or ask the sender for a new one.',
+    icon: Link2Off
+  },
+  short_link_unavailable: {
+    title: 'Link Unavailable',
+    message: 'This short link could not be looked up right now. Try again in a moment.',
+    icon: CloudOff
+  }
+};
+
+/**
+ * LinkError Component
+ *
+ * Friendly error state for links that fail to decode or validate.
+ * Shows a different explanation for each failure kind.
+ */
+export const LinkError: React.FC<LinkErrorProps> = ({ error }) => {
+  const copy = ERROR_COPY[error.kind];
+  const Icon = copy?.icon || Lock;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+      <div className="bg-white p-8 rounded-2xl shadow-lg max-w-sm w-full text-center">
+        <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Icon className="w-8 h-8 text-red-500" />
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-2">{copy?.title || 'Invalid Link'}</h2>
+        <p className="text-gray-600 text-sm">
+          {copy?.message || 'This link appears to be invalid.'}
+        </p>
+        {import.meta.env?.DEV && (
+          <p className="mt-4 text-xs text-gray-400 font-mono break-all">
+            {error.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { LinkPayload } from '../utils/payload';
+import { OpenOptions, openInSystemBrowser, redirectImmediately, shouldShowBrowserTransition } from '../utils/routing';
+import { BreakoutResult } from '../utils/breakout';
+import { evaluateDestination, SafetyVerdict } from '../utils/safety';
+import { SignatureCheck, verifyPayload } from '../utils/signing';
+import { getWindowStatus, WindowStatus } from '../utils/schedule';
+import { getRoutingContext, resolveDestination } from '../utils/smartRouting';
+import { getBioBlocks } from '../utils/bioBlocks';
+import { DestinationTags, tagDestination } from '../utils/utm';
+import { useEnvironment } from './EnvironmentContext';
+import { BrowserBridge } from './BrowserBridge';
+import { BioPage } from './BioPage';
+import { SafetyInterstitial } from './SafetyInterstitial';
+import { ScheduleNotice } from './ScheduleNotice';
+
+/**
+ * How the flow leaves the page
+ * The Viewer navigates for real; the Dashboard preview only records
+ * where the visitor would have gone.
+ */
+export interface LinkNavigation {
+  // Sends a visitor in a real browser on (see redirectImmediately)
+  redirect: (url: string, options: OpenOptions) => void;
+  // Leaves an in-app browser after the visitor's tap (see openInSystemBrowser)
+  breakout: (url: string, options: OpenOptions) => Promise<BreakoutResult>;
+  // Remember each visitor's split-link variant (off for simulated visitors)
+  stickyVariants: boolean;
+}
+
+export const BROWSER_NAVIGATION: LinkNavigation = {
+  redirect: redirectImmediately,
+  breakout: openInSystemBrowser,
+  stickyVariants: true
+};
+
+export interface LinkFlow {
+  payload: LinkPayload | null; // null until present() has run
+  signature: SignatureCheck | null;
+  windowStatus: WindowStatus;
+  destination: string; // Direct, smart or split destination ('' for bio pages)
+  safetyVerdict: SafetyVerdict | null; // Interstitial being shown
+  bridgeUrl: string; // Destination waiting on the browser transition
+  tags: DestinationTags; // UTM settings and forwarded parameters of the payload
+  // Verifies and shows a decoded payload; direct links in a real browser redirect straight away
+  present: (decoded: LinkPayload, isCancelled?: () => boolean) => Promise<void>;
+  // Opens an outbound link (bio page links, the fallback button)
+  openLink: (url: string, inApp?: boolean) => void;
+  // Continues past a safety warning
+  continueToDestination: () => void;
+  // Back from a safety warning to the bio page
+  dismissWarning: () => void;
+  // Runs the breakout from the browser transition
+  confirmBridge: () => Promise<BreakoutResult> | undefined;
+}
+
+/**
+ * Warning shown instead of redirecting when a signed link was modified
+ */
+const tamperedVerdict = (url: string): SafetyVerdict => {
+  let host: string | undefined;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    host = undefined;
+  }
+  return {
+    action: 'warn',
+    url,
+    host,
+    reason: 'tampered',
+    message: 'This link was changed after its creator signed it. The destination may not be the one they intended.'
+  };
+};
+
+/**
+ * Decides what a visitor sees once a payload is decoded, for the Viewer
+ * and the Dashboard preview alike:
+ * - Creator signature verification
+ * - Activation windows (not yet available / expired)
+ * - Smart links (destination picked by OS, app, language and time rules)
+ * - Split links (weighted variant, sticky per visitor)
+ * - Destination safety checks (block / warn interstitial, tampered links)
+ * - Browser transition for in-app browsers, redirect otherwise
+ * - UTM tagging and forwarded query parameters on the way out
+ *
+ * `incoming` is the query string the link was opened with (for forwarded parameters).
+ */
+export const useLinkFlow = (navigation: LinkNavigation = BROWSER_NAVIGATION, incoming: string = ''): LinkFlow => {
+  const env = useEnvironment();
+  const [payload, setPayload] = useState<LinkPayload | null>(null);
+  const [signature, setSignature] = useState<SignatureCheck | null>(null);
+  const [windowStatus, setWindowStatus] = useState<WindowStatus>('active');
+  const [destination, setDestination] = useState('');
+  const [openInApp, setOpenInApp] = useState(false);
+  const [safetyVerdict, setSafetyVerdict] = useState<SafetyVerdict | null>(null);
+  const [bridgeUrl, setBridgeUrl] = useState('');
+
+  const getTags = (link: LinkPayload | null): DestinationTags => ({
+    utm: link?.utm,
+    passthrough: link?.passthrough,
+    incoming
+  });
+
+  const present = async (decoded: LinkPayload, isCancelled: () => boolean = () => false) => {
+    // Check the creator signature before showing or redirecting anything
+    const signatureCheck = await verifyPayload(decoded);
+    if (isCancelled()) {
+      return;
+    }
+
+    if (import.meta.env.DEV) {
+      console.log('[LinkFlow] Signature status:', signatureCheck.status);
+    }
+
+    const currentWindow = getWindowStatus(decoded);
+    setSignature(signatureCheck);
+    setWindowStatus(currentWindow);
+    setPayload(decoded);
+
+    // Outside the activation window: show the notice, never redirect
+    if (currentWindow !== 'active') {
+      return;
+    }
+
+    // Direct links (smart and split links resolve to one destination,
+    // picked once here so re-renders can't switch the visitor's variant)
+    const target = resolveDestination(decoded, getRoutingContext(env), navigation.stickyVariants);
+    if (!target) {
+      return;
+    }
+    setDestination(target);
+    setOpenInApp(!!decoded.openInApp);
+
+    // Safety policy comes before everything else: blocked or suspicious
+    // destinations (and links edited after signing) get an interstitial
+    const verdict = signatureCheck.status === 'invalid'
+      ? tamperedVerdict(target)
+      : evaluateDestination(target);
+    if (verdict.action !== 'allow') {
+      if (import.meta.env.DEV) {
+        console.warn('[LinkFlow] Destination flagged by safety policy:', verdict);
+      }
+      setSafetyVerdict(verdict);
+      return;
+    }
+
+    // CRITICAL: Always check for in-app browser FIRST
+    // In-app browsers wait for the visitor to confirm the transition
+    if (shouldShowBrowserTransition(env)) {
+      setBridgeUrl(target);
+      return;
+    }
+
+    // Only redirect if we're in a real browser
+    // Use setTimeout to ensure React state updates complete first
+    setTimeout(() => {
+      navigation.redirect(target, { openInApp: decoded.openInApp, env, tags: getTags(decoded) });
+    }, 0);
+  };
+
+  /**
+   * Sends the visitor on to a destination that passed the safety check
+   * (or that they chose to continue to after a warning)
+   */
+  const proceed = (url: string, inApp: boolean) => {
+    setSafetyVerdict(null);
+    if (shouldShowBrowserTransition(env)) {
+      setBridgeUrl(url);
+    } else {
+      navigation.redirect(url, { openInApp: inApp, env, tags: getTags(payload) });
+    }
+  };
+
+  const openLink = (url: string, inApp: boolean = false) => {
+    setOpenInApp(inApp);
+    const verdict = evaluateDestination(url);
+    if (verdict.action !== 'allow') {
+      setSafetyVerdict(verdict);
+      return;
+    }
+    proceed(url, inApp);
+  };
+
+  return {
+    payload,
+    signature,
+    windowStatus,
+    destination,
+    safetyVerdict,
+    bridgeUrl,
+    tags: getTags(payload),
+    present,
+    openLink,
+    continueToDestination: () => {
+      if (safetyVerdict) {
+        proceed(safetyVerdict.url, openInApp);
+      }
+    },
+    dismissWarning: () => setSafetyVerdict(null),
+    confirmBridge: () => (bridgeUrl ? navigation.breakout(bridgeUrl, { openInApp, env, tags: getTags(payload) }) : undefined)
+  };
+};
+
+/**
+ * LinkFlowView Component
+ *
+ * Renders a presented link: schedule notice, safety interstitial, browser
+ * transition, bio page, or the open button for a direct link.
+ */
+export const LinkFlowView: React.FC<{ flow: LinkFlow }> = ({ flow }) => {
+  const { payload } = flow;
+  if (!payload) {
+    return null;
+  }
+
+  // Link outside its activation window
+  if (flow.windowStatus !== 'active') {
+    return (
+      <ScheduleNotice
+        status={flow.windowStatus}
+        notBefore={payload.notBefore}
+        notAfter={payload.notAfter}
+      />
+    );
+  }
+
+  // Safety interstitial: blocked destinations stop here, warnings need confirmation
+  if (flow.safetyVerdict) {
+    return (
+      <SafetyInterstitial
+        verdict={flow.safetyVerdict}
+        onContinue={flow.continueToDestination}
+        onBack={payload.mode === 'bio' ? flow.dismissWarning : undefined}
+      />
+    );
+  }
+
+  // PRIORITY: Show browser transition confirmation FIRST if needed
+  // For in-app browsers, ALWAYS show bridge - never redirect immediately
+  if (flow.bridgeUrl) {
+    return (
+      <BrowserBridge onOpen={flow.confirmBridge} url={tagDestination(flow.bridgeUrl, flow.tags)} />
+    );
+  }
+
+  // Bio page
+  const bioBlocks = payload.mode === 'bio' ? getBioBlocks(payload) : [];
+  if (bioBlocks.length > 0) {
+    return (
+      <BioPage
+        profileName={payload.profileName || 'My Links'}
+        blocks={bioBlocks}
+        signature={flow.signature}
+        theme={payload.theme}
+        onLinkClick={(link) => flow.openLink(link.url, link.openInApp)}
+      />
+    );
+  }
+
+  // Direct link fallback (shouldn't normally reach here, but just in case)
+  if (flow.destination) {
+    // If we're here, we're in a real browser and should have redirected
+    // But if something went wrong, show a button
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+        <div className="bg-white p-8 rounded-2xl shadow-lg max-w-sm w-full text-center">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Lock className="w-8 h-8 text-gray-400" />
+          </div>
+          <h2 className="text-xl font-bold text-gray-900 mb-6">
+            {payload.title || 'Open Link'}
+          </h2>
+          <button
+            onClick={() => flow.openLink(flow.destination, payload.openInApp)}
+            className="w-full py-4 bg-brand-teal text-white font-bold rounded-xl shadow-lg hover:bg-teal-600 transition"
+          >
+            Click to Open
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Fallback
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="text-center">
+        <p className="text-gray-600">Unable to display this link.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ClipboardPaste, LockKeyhole } from 'lucide-react';
+import { LinkPayload } from '../utils/payload';
+import { importParaLink } from '../utils/linkImport';
+
+interface LinkImporterProps {
+  onImport: (payload: LinkPayload, link: string) => void;
+}
+
+/**
+ * LinkImporter Component
+ *
+ * "Paste a ParaLink to edit" field for the Dashboard. Decodes the link
+ * (asking for the passphrase of encrypted ones) and explains why a link
+ * can't be imported.
+ */
+export const LinkImporter: React.FC<LinkImporterProps> = ({ onImport }) => {
+  const [link, setLink] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleImport = async () => {
+    if (!link.trim()) return;
+    setBusy(true);
+    const result = await importParaLink(link, passphrase);
+    setBusy(false);
+
+    if (result.ok === false) {
+      setError(result.message);
+      setNeedsPassphrase(result.kind === 'locked');
+      return;
+    }
+    onImport(result.payload, link.trim());
+    setLink('');
+    setPassphrase('');
+    setNeedsPassphrase(false);
+    setError('');
+  };
+
+  const inputClass = 'px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none';
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center space-x-2 text-sm font-semibold text-gray-700">
+        <ClipboardPaste className="w-4 h-4 text-gray-400" />
+        <span>Paste a ParaLink to edit</span>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="https://…/go/…"
+          value={link}
+          onChange={(e) => {
+            setLink(e.target.value);
+            setError('');
+            setNeedsPassphrase(false);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleImport()}
+          className={`flex-1 font-mono ${inputClass}`}
+        />
+        <button
+          onClick={handleImport}
+          disabled={busy || !link.trim()}
+          className="px-4 py-2 bg-black text-white text-sm font-semibold rounded-lg hover:bg-gray-800 disabled:opacity-40 transition-colors"
+        >
+          {busy ? 'Reading…' : 'Import'}
+        </button>
+      </div>
+      {needsPassphrase && (
+        <div className="flex items-center gap-2">
+          <LockKeyhole className="w-4 h-4 text-gray-400" />
+          <input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleImport()}
+            className={`flex-1 ${inputClass}`}
+          />
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import React, { useRef, useState } from 'react';
+import { Library, Search, Pencil, Copy, Trash2, Download, Upload, History, Tag, RotateCcw } from 'lucide-react';
+import {
+  LibraryEntry,
+  LibraryRevision,
+  deleteLibraryEntry,
+  duplicateLibraryEntry,
+  exportWorkspace,
+  importLibraryEntries,
+  parseWorkspace,
+  saveLibraryEntry,
+  searchLibrary
+} from '../utils/library';
+
+interface LinkLibraryProps {
+  entries: LibraryEntry[];
+  editingId: string | null; // Entry currently loaded into the form
+  onEdit: (entry: LibraryEntry, revision?: LibraryRevision) => void;
+  onChange: () => void; // Called after the stored library changed
+}
+
+const MODE_LABELS: Record<LibraryEntry['payload']['mode'], string> = {
+  direct: 'Direct',
+  bio: 'Bio',
+  smart: 'Smart',
+  split: 'A/B'
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * LinkLibrary Component
+ *
+ * Searchable list of links generated in this browser, with edit,
+ * duplicate, delete and earlier versions per entry. The whole library
+ * exports to (and imports from) a JSON workspace file for teammates.
+ */
+export const LinkLibrary: React.FC<LinkLibraryProps> = ({ entries, editingId, onEdit, onChange }) => {
+  const [query, setQuery] = useState('');
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ error: boolean; text: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const visible = searchLibrary(entries, query);
+
+  const handleDuplicate = async (entry: LibraryEntry) => {
+    try {
+      await saveLibraryEntry(duplicateLibraryEntry(entry));
+    } catch (e) {
+      setNotice({ error: true, text: `Couldn't duplicate "${entry.name}": browser storage is full or unavailable.` });
+      return;
+    }
+    onChange();
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.name}" from your library? The link itself keeps working.`)) {
+      return;
+    }
+    try {
+      await deleteLibraryEntry(entry.id);
+    } catch (e) {
+      setNotice({ error: true, text: `Couldn't delete "${entry.name}": browser storage is unavailable.` });
+      return;
+    }
+    onChange();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportWorkspace(entries)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `paralink-workspace-${new Date().toISOString().slice(0, 10)}.json`;
+    // Firefox only follows links that are in the document
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    // Revoking straight away can cancel the download before it starts
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    const result = parseWorkspace(await file.text());
+    if (result.ok === false) {
+      setNotice({ error: true, text: `Can't import this workspace: ${result.error}` });
+      return;
+    }
+    let imported: number;
+    try {
+      imported = await importLibraryEntries(result.entries);
+    } catch (err) {
+      setNotice({ error: true, text: "Couldn't import this workspace: browser storage is full or unavailable." });
+      onChange();
+      return;
+    }
+    setNotice({
+      error: false,
+      text: imported === 1 ? 'Imported 1 link.' : `Imported ${imported} links.`
+    });
+    onChange();
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+      <div className="bg-gray-900 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-white">
+          <Library className="w-4 h-4 text-brand-teal" />
+          <span className="font-medium text-sm">Link Library</span>
+          <span className="text-xs text-gray-400">({entries.length})</span>
+        </div>
+        <div className="flex items-center space-x-3 text-xs">
+          <button
+            onClick={() => fileInput.current && fileInput.current.click()}
+            className="flex items-center text-gray-300 hover:text-white transition-colors"
+          >
+            <Upload className="w-4 h-4 mr-1" /> Import
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={entries.length === 0}
+            className="flex items-center text-gray-300 hover:text-white disabled:opacity-40 transition-colors"
+          >
+            <Download className="w-4 h-4 mr-1" /> Export
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {notice && (
+          <p className={`text-sm rounded-xl px-4 py-3 border ${
+            notice.error ? 'text-red-600 bg-red-50 border-red-100' : 'text-green-700 bg-green-50 border-green-100'
+          }`}>
+            {notice.text}
+          </p>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            Links you generate are saved here, in this browser only.
+          </p>
+        ) : (
+          <>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="w-4 h-4 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                placeholder="Search by name, tag or URL"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none"
+              />
+            </div>
+
+            {visible.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-2">No links match "{query}".</p>
+            )}
+
+            <ul className="divide-y divide-gray-100">
+              {visible.map(entry => (
+                <li key={entry.id} className="py-3 space-y-2">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <span className="text-xs font-semibold text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">
+                          {MODE_LABELS[entry.payload.mode]}
+                        </span>
+                        <span className={`text-sm font-semibold truncate ${
+                          entry.id === editingId ? 'text-brand-teal' : 'text-gray-900'
+                        }`}>
+                          {entry.name}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-400 mt-1">
+                        Created {formatDate(entry.createdAt)}
+                        {entry.updatedAt !== entry.createdAt && ` · edited ${formatDate(entry.updatedAt)}`}
+                      </p>
+                      {entry.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {entry.tags.map(tag => (
+                            <button
+                              key={tag}
+                              onClick={() => setQuery(tag)}
+                              className="flex items-center text-xs text-brand-teal bg-teal-50 px-2 py-0.5 rounded-full hover:underline"
+                            >
+                              <Tag className="w-3 h-3 mr-1" />
+                              {tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center flex-shrink-0">
+                      <button
+                        onClick={() => onEdit(entry)}
+                        className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                        aria-label="Edit link"
+                        title="Edit and regenerate"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDuplicate(entry)}
+                        className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                        aria-label="Duplicate link"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      {entry.history.length > 0 && (
+                        <button
+                          onClick={() => setHistoryId(historyId === entry.id ? null : entry.id)}
+                          className={`p-2 transition-colors ${
+                            historyId === entry.id ? 'text-brand-teal' : 'text-gray-400 hover:text-gray-600'
+                          }`}
+                          aria-label="Show earlier versions"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        className="p-2 text-red-400 hover:text-red-600 transition-colors"
+                        aria-label="Delete link"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {historyId === entry.id && (
+                    <ul className="bg-gray-50 border border-gray-200 rounded-xl p-3 space-y-2">
+                      {entry.history.map(revision => (
+                        <li key={revision.savedAt} className="flex items-center justify-between text-xs text-gray-600">
+                          <span>{formatDate(revision.savedAt)}</span>
+                          <button
+                            onClick={() => onEdit(entry, revision)}
+                            className="flex items-center text-brand-teal font-medium hover:underline"
+                          >
+                            <RotateCcw className="w-3 h-3 mr-1" /> Load this version
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
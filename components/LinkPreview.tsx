@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Eye, ExternalLink, Smartphone, X } from 'lucide-react';
+import { LinkPayload } from '../utils/payload';
+import { OSType } from '../utils/environment';
+import { SIMULATED_ENVIRONMENTS, getSimulatedEnvironment } from '../utils/simulatedEnvironments';
+import { BreakoutResult, resolveBreakoutStrategy } from '../utils/breakout';
+import { getAppUrl, getDeepLinkApp } from '../utils/deeplinks';
+import { tagDestination } from '../utils/utm';
+import { EnvironmentProvider, useEnvironment } from './EnvironmentContext';
+import { LinkFlowView, LinkNavigation, useLinkFlow } from './LinkFlow';
+
+interface LinkPreviewProps {
+  payload: LinkPayload | null; // null = nothing to preview yet
+  error?: string; // Validation problem with the current form
+}
+
+interface OpenedState {
+  url: string;
+  app: string | null; // Native app tried first, if any
+}
+
+// Pause before a simulated breakout reports that the page is still visible
+const SIMULATED_BREAKOUT_MS = 600;
+
+/**
+ * What a visitor sees: the Viewer's own link flow (see LinkFlow.tsx) with
+ * navigation that records where the visitor would go instead of leaving
+ */
+const PreviewContent: React.FC<{ payload: LinkPayload }> = ({ payload }) => {
+  const env = useEnvironment();
+  const [opened, setOpened] = useState<OpenedState | null>(null);
+
+  const navigation: LinkNavigation = {
+    redirect: (url, options) => {
+      const tagged = options.tags ? tagDestination(url, options.tags) : url;
+      setOpened({ url: tagged, app: options.openInApp && getAppUrl(tagged, env.os) ? getDeepLinkApp(tagged) : null });
+    },
+    // The preview can't leave the page, so the breakout always "fails"
+    // and the bridge shows its manual steps
+    breakout: () =>
+      new Promise<BreakoutResult>(resolve => setTimeout(() => {
+        const strategy = resolveBreakoutStrategy(env);
+        resolve({ strategy: strategy.id, method: strategy.attempts[strategy.attempts.length - 1].method, left: false });
+      }, SIMULATED_BREAKOUT_MS)),
+    // Each preview is a fresh visitor; the creator's browser keeps no assignment
+    stickyVariants: false
+  };
+  // Nothing is forwarded: the preview wasn't opened from a link
+  const flow = useLinkFlow(navigation);
+
+  // Replays the visitor's first load
+  // (the pane remounts this component whenever the payload or environment changes)
+  useEffect(() => {
+    let cancelled = false;
+    flow.present(payload, () => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (opened) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+        <div className="bg-white p-6 rounded-2xl shadow-lg w-full text-center space-y-3">
+          <ExternalLink className="w-8 h-8 text-brand-teal mx-auto" />
+          <p className="text-sm font-semibold text-gray-900">
+            Redirects straight to
+          </p>
+          <p className="text-xs font-mono text-gray-600 break-all">{opened.url}</p>
+          {opened.app && (
+            <p className="text-xs text-gray-500 flex items-center justify-center space-x-1">
+              <Smartphone className="w-3 h-3" />
+              <span>Tries the {opened.app} app first</span>
+            </p>
+          )}
+          {payload.mode === 'bio' && (
+            <button onClick={() => setOpened(null)} className="text-xs text-brand-teal font-medium hover:underline">
+              Back to page
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (!flow.payload) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin w-8 h-8 border-4 border-brand-teal border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return <LinkFlowView flow={flow} />;
+};
+
+/**
+ * LinkPreview Component
+ *
+ * Dashboard pane showing the link being built as a visitor would see it,
+ * using the Viewer's own link flow and components. The environment switcher injects a
+ * simulated environment (see EnvironmentContext) instead of this browser's.
+ */
+export const LinkPreview: React.FC<LinkPreviewProps> = ({ payload, error }) => {
+  const [envId, setEnvId] = useState(SIMULATED_ENVIRONMENTS[0].id);
+  const env = useMemo(() => getSimulatedEnvironment(envId), [envId]);
+  const isDesktop = env.os === OSType.DESKTOP;
+  // Remount on every change so the preview replays the visitor's first load
+  const previewKey = `${envId}:${JSON.stringify(payload)}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm font-semibold text-gray-700">
+          <Eye className="w-4 h-4 text-gray-400" />
+          <span>Preview</span>
+        </div>
+        <select
+          value={envId}
+          onChange={(e) => setEnvId(e.target.value)}
+          className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none"
+          aria-label="Preview environment"
+        >
+          {SIMULATED_ENVIRONMENTS.map(s => (
+            <option key={s.id} value={s.id}>{s.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div
+        className={`mx-auto bg-white overflow-hidden shadow-xl flex flex-col ${
+          isDesktop ? 'w-full h-[480px] rounded-xl border border-gray-300' : 'w-[320px] h-[640px] rounded-[2.5rem] border-[10px] border-gray-900'
+        }`}
+      >
+        {/* In-app browser chrome */}
+        {env.isInAppBrowser && (
+          <div className="flex items-center justify-between px-4 py-2 bg-gray-100 border-b border-gray-200 text-xs text-gray-600 flex-shrink-0">
+            <X className="w-4 h-4" />
+            <span className="font-semibold">{env.appName}</span>
+            <span className="w-4">•••</span>
+          </div>
+        )}
+        <div className="flex-1 overflow-y-auto [&_.min-h-screen]:min-h-full h-full">
+          {payload ? (
+            <EnvironmentProvider env={env}>
+              <PreviewContent key={previewKey} payload={payload} />
+            </EnvironmentProvider>
+          ) : (
+            <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6 text-center">
+              <p className="text-sm text-gray-500">{error || 'Fill in the form to see a preview.'}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
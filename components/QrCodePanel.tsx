@@ -0,0 +1,177 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { QrCode, Download, ImagePlus, X, AlertTriangle } from 'lucide-react';
+import {
+  DEFAULT_QR_STYLE,
+  encodeQrWithLogo,
+  getLogoBox,
+  hasScannableContrast,
+  QrStyle,
+  renderQrPng,
+  renderQrSvg
+} from '../utils/qrExport';
+
+interface QrCodePanelProps {
+  link: string;
+}
+
+// Logos are embedded in the exported files, keep them reasonably small
+const MAX_LOGO_BYTES = 512 * 1024;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  // Detached anchors are ignored by Firefox
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Keep the blob URL alive until the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * QrCodePanel Component
+ *
+ * QR code for the generated link, encoded in the browser (utils/qr.ts).
+ * Size and error correction follow the link length; a logo raises the
+ * error correction so the code still scans with its centre covered.
+ */
+export const QrCodePanel: React.FC<QrCodePanelProps> = ({ link }) => {
+  const [style, setStyle] = useState<QrStyle>(DEFAULT_QR_STYLE);
+  const [logoError, setLogoError] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const qr = useMemo(() => encodeQrWithLogo(link, !!style.logo), [link, style.logo]);
+  const svg = useMemo(() => (qr ? renderQrSvg(qr, style) : ''), [qr, style]);
+
+  if (!qr) {
+    return (
+      <p className="text-xs text-gray-500">
+        This link is too long for a QR code. Shorten the bio page or use fewer links.
+      </p>
+    );
+  }
+
+  const logoDropped = !!style.logo && !getLogoBox(qr);
+
+  const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      setLogoError('Pick a logo under 512 KB.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      setLogoError('');
+      setStyle({ ...style, logo: reader.result as string });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const exportPng = async () => {
+    setExporting(true);
+    try {
+      downloadBlob(await renderQrPng(qr, style), 'paralink-qr.png');
+    } catch (e) {
+      setLogoError('This browser could not create the PNG. Try the SVG instead.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const labelClass = 'block text-xs font-medium text-gray-500 mb-1';
+  const colorClass = 'w-full h-9 bg-gray-50 border border-gray-200 rounded-lg cursor-pointer';
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4">
+      <img
+        src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+        alt="QR code for the generated link"
+        className="w-40 h-40 flex-shrink-0 mx-auto sm:mx-0 border border-gray-200 rounded-lg"
+      />
+      <div className="flex-1 space-y-3">
+        <div className="flex items-center space-x-2 text-sm font-semibold text-gray-700">
+          <QrCode className="w-4 h-4 text-gray-400" />
+          <span>QR Code</span>
+          <span className="text-xs font-normal text-gray-400">
+            Version {qr.version} · error correction {qr.ecc}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className={labelClass}>Code</label>
+            <input
+              type="color"
+              value={style.foreground}
+              onChange={(e) => setStyle({ ...style, foreground: e.target.value })}
+              className={colorClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Background</label>
+            <input
+              type="color"
+              value={style.background}
+              onChange={(e) => setStyle({ ...style, background: e.target.value })}
+              className={colorClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Logo</label>
+            {style.logo ? (
+              <button
+                onClick={() => setStyle({ ...style, logo: null })}
+                className="w-full h-9 flex items-center justify-center text-sm text-red-500 hover:text-red-600 bg-gray-50 border border-gray-200 rounded-lg"
+              >
+                <X className="w-4 h-4 mr-1" /> Remove
+              </button>
+            ) : (
+              <button
+                onClick={() => fileInput.current && fileInput.current.click()}
+                className="w-full h-9 flex items-center justify-center text-sm text-brand-teal bg-gray-50 border border-gray-200 rounded-lg hover:underline"
+              >
+                <ImagePlus className="w-4 h-4 mr-1" /> Add
+              </button>
+            )}
+            <input ref={fileInput} type="file" accept="image/*" onChange={handleLogo} className="hidden" />
+          </div>
+        </div>
+
+        {!hasScannableContrast(style) && (
+          <p className="text-xs text-amber-600 flex items-center">
+            <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+            Many scanners need a dark code on a light background.
+          </p>
+        )}
+        {logoDropped && (
+          <p className="text-xs text-amber-600 flex items-center">
+            <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+            This link is too long to leave room for a logo.
+          </p>
+        )}
+        {logoError && <p className="text-xs text-red-600">{logoError}</p>}
+
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'paralink-qr.svg')}
+            className="flex items-center text-sm text-brand-teal font-medium hover:underline"
+          >
+            <Download className="w-4 h-4 mr-1" /> SVG
+          </button>
+          <button
+            onClick={exportPng}
+            disabled={exporting}
+            className="flex items-center text-sm text-brand-teal font-medium hover:underline disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-1" /> PNG
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ShieldAlert, ShieldX, ArrowLeft } from 'lucide-react';
+import { SafetyVerdict } from '../utils/safety';
+
+interface SafetyInterstitialProps {
+  verdict: SafetyVerdict;
+  onContinue?: () => void; // Only offered for warnings
+  onBack?: () => void; // e.g. back to the bio page
+}
+
+/**
+ * SafetyInterstitial Component
+ *
+ * Shown instead of navigating when the safety policy flags a destination.
+ * - Blocked destinations: explanation only, no way through
+ * - Warned destinations: shows the real host and lets the visitor continue
+ */
+export const SafetyInterstitial: React.FC<SafetyInterstitialProps> = ({
+  verdict,
+  onContinue,
+  onBack
+}) => {
+  const blocked = verdict.action === 'block';
+  const Icon = blocked ? ShieldX : ShieldAlert;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+      <div className="bg-white p-8 rounded-2xl shadow-lg max-w-sm w-full text-center">
+        <div className={`w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4 ${blocked ? 'bg-red-100' : 'bg-amber-100'}`}>
+          <Icon className={`w-8 h-8 ${blocked ? 'text-red-500' : 'text-amber-500'}`} />
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-2">
+          {blocked ? 'Link Blocked' : 'Check Before You Continue'}
+        </h2>
+        <p className="text-gray-600 text-sm mb-4">{verdict.message}</p>
+
+        {verdict.host && (
+          <div className="bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 mb-6 font-mono text-sm text-gray-800 break-all">
+            {verdict.host}
+          </div>
+        )}
+
+        {!blocked && onContinue && (
+          <button
+            onClick={onContinue}
+            className="w-full py-4 bg-amber-500 text-white font-bold rounded-xl shadow-lg hover:bg-amber-600 transition mb-3"
+          >
+            Continue Anyway
+          </button>
+        )}
+
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="w-full py-3 text-gray-600 font-semibold rounded-xl hover:bg-gray-100 transition flex items-center justify-center space-x-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Go Back</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
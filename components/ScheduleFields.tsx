@@ -0,0 +1,71 @@
+import React from 'react';
+import { fromDateTimeLocal, Scheduled, toDateTimeLocal } from '../utils/schedule';
+
+export interface ScheduleDraft {
+  notBefore: string; // <input type="datetime-local"> value, '' when unset
+  notAfter: string;
+}
+
+/**
+ * Converts date picker values to payload timestamps, omitting unset ones
+ */
+export const scheduleFromDraft = (draft: ScheduleDraft): { notBefore?: number; notAfter?: number } => {
+  const schedule: { notBefore?: number; notAfter?: number } = {};
+  const notBefore = fromDateTimeLocal(draft.notBefore);
+  const notAfter = fromDateTimeLocal(draft.notAfter);
+  if (notBefore !== undefined) schedule.notBefore = notBefore;
+  if (notAfter !== undefined) schedule.notAfter = notAfter;
+  return schedule;
+};
+
+/**
+ * Converts payload timestamps back to date picker values
+ */
+export const scheduleToDraft = (item: Scheduled): ScheduleDraft => ({
+  notBefore: toDateTimeLocal(item.notBefore),
+  notAfter: toDateTimeLocal(item.notAfter)
+});
+
+interface ScheduleFieldsProps {
+  value: ScheduleDraft;
+  onChange: (value: ScheduleDraft) => void;
+  compact?: boolean; // Smaller inputs for per-link rows
+}
+
+/**
+ * ScheduleFields Component
+ *
+ * Pair of date pickers for an activation window.
+ * Times are entered in the creator's local timezone.
+ */
+export const ScheduleFields: React.FC<ScheduleFieldsProps> = ({ value, onChange, compact }) => {
+  const inputClass = compact
+    ? 'w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none'
+    : 'w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all';
+  const labelClass = compact
+    ? 'block text-xs font-medium text-gray-500 mb-1'
+    : 'block text-sm font-semibold text-gray-700 mb-1';
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <label className={labelClass}>Available from</label>
+        <input
+          type="datetime-local"
+          value={value.notBefore}
+          onChange={(e) => onChange({ ...value, notBefore: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Available until</label>
+        <input
+          type="datetime-local"
+          value={value.notAfter}
+          onChange={(e) => onChange({ ...value, notAfter: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+};
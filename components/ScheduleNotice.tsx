@@ -0,0 +1,43 @@
+import React from 'react';
+import { CalendarClock, CalendarX } from 'lucide-react';
+import { formatScheduleTime, WindowStatus } from '../utils/schedule';
+
+interface ScheduleNoticeProps {
+  status: Exclude<WindowStatus, 'active'>;
+  notBefore?: number;
+  notAfter?: number;
+}
+
+/**
+ * ScheduleNotice Component
+ *
+ * Shown instead of the link when the visitor is outside its activation window:
+ * - pending: not yet available, with the start time
+ * - expired: no longer available, with the end time
+ */
+export const ScheduleNotice: React.FC<ScheduleNoticeProps> = ({ status, notBefore, notAfter }) => {
+  const pending = status === 'pending';
+  const Icon = pending ? CalendarClock : CalendarX;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+      <div className="bg-white p-8 rounded-2xl shadow-lg max-w-sm w-full text-center">
+        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Icon className="w-8 h-8 text-gray-500" />
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-2">
+          {pending ? 'Not Yet Available' : 'Link Expired'}
+        </h2>
+        <p className="text-gray-600 text-sm">
+          {pending
+            ? notBefore
+              ? `This link opens on ${formatScheduleTime(notBefore)}. Check back then.`
+              : 'This link is not available yet. Check back later.'
+            : notAfter
+              ? `This link was available until ${formatScheduleTime(notAfter)}.`
+              : 'This link is no longer available.'}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { KeyRound, Clipboard, ShieldCheck, Trash2 } from 'lucide-react';
+import { generateSigningKey, saveSigningKey, SigningKey } from '../utils/signing';
+
+interface SigningPanelProps {
+  signingKey: SigningKey | null;
+  onKeyChange: (key: SigningKey | null) => void;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+}
+
+/**
+ * SigningPanel Component
+ *
+ * Dashboard controls for signing generated links.
+ * The private key never leaves this browser; the public key is copied
+ * into the deployment config so the Viewer can verify signed links.
+ */
+export const SigningPanel: React.FC<SigningPanelProps> = ({
+  signingKey,
+  onKeyChange,
+  enabled,
+  onToggle
+}) => {
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [keyError, setKeyError] = useState('');
+
+  const handleCreateKey = async () => {
+    setBusy(true);
+    setKeyError('');
+    try {
+      const key = await generateSigningKey();
+      saveSigningKey(key);
+      onKeyChange(key);
+      onToggle(true);
+    } catch (e) {
+      setKeyError('Your browser could not create a signing key. Signing needs a secure (https) page.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeleteKey = () => {
+    if (!window.confirm('Delete this signing key? Links signed with it will stay verified only while its public key is trusted.')) {
+      return;
+    }
+    saveSigningKey(null);
+    onKeyChange(null);
+    onToggle(false);
+  };
+
+  const copyPublicKey = () => {
+    if (!signingKey) return;
+    const entry = { kid: signingKey.kid, publicKey: signingKey.publicKey };
+    navigator.clipboard.writeText(JSON.stringify(entry, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!signingKey) {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-xl p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-sm text-gray-700">
+            <KeyRound className="w-4 h-4 text-gray-400" />
+            <span>Sign links so visitors see a verified badge</span>
+          </div>
+          <button
+            onClick={handleCreateKey}
+            disabled={busy}
+            className="text-sm text-brand-teal font-medium hover:underline disabled:opacity-50"
+          >
+            {busy ? 'Creating…' : 'Create signing key'}
+          </button>
+        </div>
+        {keyError && <p className="mt-2 text-xs text-red-600">{keyError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 space-y-3">
+      <label className="flex items-center space-x-2 text-sm font-semibold text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="rounded text-brand-teal focus:ring-brand-teal"
+        />
+        <span>Sign this link</span>
+        <span className="font-mono text-xs text-gray-400">({signingKey.kid})</span>
+      </label>
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>Add your public key to the deployment config to show the verified badge.</span>
+        <div className="flex items-center space-x-3 flex-shrink-0 ml-3">
+          <button
+            onClick={copyPublicKey}
+            className="flex items-center text-brand-teal font-medium hover:underline"
+          >
+            {copied ? <ShieldCheck className="w-4 h-4 mr-1" /> : <Clipboard className="w-4 h-4 mr-1" />}
+            Public key
+          </button>
+          <button
+            onClick={handleDeleteKey}
+            className="p-1 text-red-400 hover:text-red-600 transition-colors"
+            aria-label="Delete signing key"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
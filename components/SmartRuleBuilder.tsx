@@ -0,0 +1,291 @@
+import React, { useMemo } from 'react';
+import { ChevronUp, ChevronDown, Trash2, Plus, FlaskConical } from 'lucide-react';
+import { OSType } from '../utils/environment';
+import { getCountry, getRoutingContext, resolveSmartRoute, SmartConditions, SmartRule } from '../utils/smartRouting';
+import { useEnvironment } from './EnvironmentContext';
+
+export interface SmartRuleDraft {
+  label: string;
+  url: string;
+  os: OSType | ''; // '' = any
+  inApp: '' | 'yes' | 'no';
+  appName: string;
+  language: string;
+  country: string;
+  fromHour: string; // <input type="number"> values, '' when unset
+  toHour: string;
+}
+
+export const EMPTY_SMART_RULE: SmartRuleDraft = {
+  label: '',
+  url: '',
+  os: '',
+  inApp: '',
+  appName: '',
+  language: '',
+  country: '',
+  fromHour: '',
+  toHour: ''
+};
+
+interface SmartRuleBuilderProps {
+  rules: SmartRuleDraft[];
+  onChange: (rules: SmartRuleDraft[]) => void;
+  defaultUrl: string; // Shown in the preview when no rule matches
+}
+
+const OS_LABELS: Record<OSType, string> = {
+  [OSType.IOS]: 'iOS',
+  [OSType.ANDROID]: 'Android',
+  [OSType.DESKTOP]: 'Desktop',
+  [OSType.UNKNOWN]: 'Unknown'
+};
+
+/**
+ * Adds https:// to URLs typed without a scheme
+ */
+const withScheme = (url: string): string => {
+  const u = url.trim();
+  return !u || /^https?:\/\//i.test(u) ? u : 'https://' + u;
+};
+
+const parseHour = (value: string): number | undefined => {
+  const hour = parseInt(value, 10);
+  return Number.isNaN(hour) ? undefined : hour;
+};
+
+/**
+ * Converts a rule draft to a payload rule, omitting unset conditions
+ */
+export const smartRuleFromDraft = (draft: SmartRuleDraft): SmartRule => {
+  const when: SmartConditions = {};
+  if (draft.os) when.os = draft.os;
+  if (draft.inApp) when.inApp = draft.inApp === 'yes';
+  if (draft.appName.trim()) when.appName = draft.appName.trim();
+  if (draft.language.trim()) when.language = draft.language.trim();
+  if (draft.country.trim()) when.country = draft.country.trim().toUpperCase();
+  const fromHour = parseHour(draft.fromHour);
+  const toHour = parseHour(draft.toHour);
+  if (fromHour !== undefined) when.fromHour = fromHour;
+  if (toHour !== undefined) when.toHour = toHour;
+
+  const rule: SmartRule = { when, url: withScheme(draft.url) };
+  if (draft.label.trim()) rule.label = draft.label.trim();
+  return rule;
+};
+
+/**
+ * Converts a payload rule back to a draft for editing
+ */
+export const smartRuleToDraft = (rule: SmartRule): SmartRuleDraft => ({
+  label: rule.label || '',
+  url: rule.url,
+  os: rule.when.os || '',
+  inApp: rule.when.inApp === undefined ? '' : rule.when.inApp ? 'yes' : 'no',
+  appName: rule.when.appName || '',
+  language: rule.when.language || '',
+  country: rule.when.country || '',
+  fromHour: rule.when.fromHour === undefined ? '' : String(rule.when.fromHour),
+  toHour: rule.when.toHour === undefined ? '' : String(rule.when.toHour)
+});
+
+/**
+ * SmartRuleBuilder Component
+ *
+ * Ordered rule list for smart links. The first rule whose conditions all
+ * match the visitor picks the destination; otherwise the default URL is used.
+ * The preview runs the rules against the creator's own browser.
+ */
+export const SmartRuleBuilder: React.FC<SmartRuleBuilderProps> = ({ rules, onChange, defaultUrl }) => {
+  const env = useEnvironment();
+  const context = useMemo(() => getRoutingContext(env), [env]);
+  const route = resolveSmartRoute({
+    mode: 'smart',
+    url: withScheme(defaultUrl),
+    rules: rules.filter(r => r.url.trim()).map(smartRuleFromDraft)
+  }, context);
+  // Index into `rules` (the preview skips rules without a URL)
+  const matchedDraft = route.ruleIndex === null
+    ? null
+    : rules.indexOf(rules.filter(r => r.url.trim())[route.ruleIndex]);
+
+  const update = (idx: number, changes: Partial<SmartRuleDraft>) => {
+    const newRules = [...rules];
+    newRules[idx] = { ...newRules[idx], ...changes };
+    onChange(newRules);
+  };
+
+  const move = (idx: number, offset: number) => {
+    const newRules = [...rules];
+    const [rule] = newRules.splice(idx, 1);
+    newRules.splice(idx + offset, 0, rule);
+    onChange(newRules);
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none';
+  const labelClass = 'block text-xs font-medium text-gray-500 mb-1';
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule, idx) => (
+        <div
+          key={idx}
+          className={`border rounded-xl p-3 space-y-2 ${
+            idx === matchedDraft ? 'border-brand-teal bg-teal-50/40' : 'border-gray-200'
+          }`}
+        >
+          <div className="flex gap-2 items-center">
+            <span className="text-xs font-bold text-gray-400 w-5">{idx + 1}</span>
+            <input
+              type="text"
+              placeholder="Label (optional)"
+              value={rule.label}
+              onChange={(e) => update(idx, { label: e.target.value })}
+              className={`w-1/3 ${inputClass}`}
+            />
+            <input
+              type="text"
+              placeholder="Destination URL"
+              value={rule.url}
+              onChange={(e) => update(idx, { url: e.target.value })}
+              className={`flex-1 ${inputClass}`}
+            />
+            <button
+              onClick={() => move(idx, -1)}
+              disabled={idx === 0}
+              className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30 transition-colors"
+              aria-label="Move rule up"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => move(idx, 1)}
+              disabled={idx === rules.length - 1}
+              className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30 transition-colors"
+              aria-label="Move rule down"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange(rules.filter((_, i) => i !== idx))}
+              className="p-1 text-red-400 hover:text-red-600 transition-colors"
+              aria-label="Remove rule"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <div>
+              <label className={labelClass}>OS</label>
+              <select
+                value={rule.os}
+                onChange={(e) => update(idx, { os: e.target.value as OSType | '' })}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                <option value={OSType.IOS}>iOS</option>
+                <option value={OSType.ANDROID}>Android</option>
+                <option value={OSType.DESKTOP}>Desktop</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Browser</label>
+              <select
+                value={rule.inApp}
+                onChange={(e) => update(idx, { inApp: e.target.value as SmartRuleDraft['inApp'] })}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                <option value="yes">In-app browser</option>
+                <option value="no">Real browser</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>App</label>
+              <input
+                type="text"
+                placeholder="e.g. Instagram"
+                value={rule.appName}
+                onChange={(e) => update(idx, { appName: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Language</label>
+              <input
+                type="text"
+                placeholder="e.g. de"
+                value={rule.language}
+                onChange={(e) => update(idx, { language: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Country</label>
+              <input
+                type="text"
+                placeholder="e.g. US"
+                value={rule.country}
+                onChange={(e) => update(idx, { country: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>From hour</label>
+              <input
+                type="number"
+                min={0}
+                max={23}
+                placeholder="0"
+                value={rule.fromHour}
+                onChange={(e) => update(idx, { fromHour: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Until hour</label>
+              <input
+                type="number"
+                min={1}
+                max={24}
+                placeholder="24"
+                value={rule.toHour}
+                onChange={(e) => update(idx, { toHour: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...rules, { ...EMPTY_SMART_RULE }])}
+        className="text-sm text-brand-teal font-medium flex items-center hover:underline"
+      >
+        <Plus className="w-4 h-4 mr-1" /> Add rule
+      </button>
+
+      {/* Preview against the creator's own browser */}
+      <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 text-sm space-y-1">
+        <div className="flex items-center space-x-2 font-semibold text-gray-700">
+          <FlaskConical className="w-4 h-4 text-gray-400" />
+          <span>Test against this environment</span>
+        </div>
+        <p className="text-xs text-gray-500">
+          {OS_LABELS[context.env.os]}
+          {context.env.isInAppBrowser ? ` · ${context.env.appName} in-app browser` : ' · real browser'}
+          {` · ${context.language || 'no language'}`}
+          {getCountry(context.language) ? ` (${getCountry(context.language)})` : ''}
+          {` · ${context.hour}:00`}
+        </p>
+        <p className="text-gray-800 break-all">
+          {matchedDraft === null
+            ? 'No rule matches, default destination: '
+            : `Rule ${matchedDraft + 1}${rules[matchedDraft].label.trim() ? ` (${rules[matchedDraft].label.trim()})` : ''} matches: `}
+          <span className="font-mono text-xs">{route.url || '(none yet)'}</span>
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Trash2, Plus } from 'lucide-react';
+import { SplitVariant } from '../utils/split';
+
+export interface SplitVariantDraft {
+  id: string;
+  url: string;
+  weight: string; // <input type="number"> value
+}
+
+interface SplitVariantEditorProps {
+  variants: SplitVariantDraft[];
+  onChange: (variants: SplitVariantDraft[]) => void;
+}
+
+/**
+ * Suggests the next unused variant id: A, B, C... then V27, V28...
+ */
+const nextVariantId = (variants: SplitVariantDraft[]): string => {
+  const used = new Set(variants.map(v => v.id.trim()));
+  for (let i = 0; ; i++) {
+    const id = i < 26 ? String.fromCharCode(65 + i) : `V${i + 1}`;
+    if (!used.has(id)) {
+      return id;
+    }
+  }
+};
+
+export const createSplitVariantDraft = (variants: SplitVariantDraft[] = []): SplitVariantDraft => ({
+  id: nextVariantId(variants),
+  url: '',
+  weight: '50'
+});
+
+/**
+ * Converts a variant draft to a payload variant
+ */
+export const splitVariantFromDraft = (draft: SplitVariantDraft): SplitVariant => {
+  let url = draft.url.trim();
+  if (!/^https?:\/\//i.test(url)) {
+    url = 'https://' + url;
+  }
+  const weight = parseFloat(draft.weight);
+  return { id: draft.id.trim(), url, weight: Number.isNaN(weight) ? 0 : weight };
+};
+
+/**
+ * Converts a payload variant back to a draft for editing
+ */
+export const splitVariantToDraft = (variant: SplitVariant): SplitVariantDraft => ({
+  id: variant.id,
+  url: variant.url,
+  weight: String(variant.weight)
+});
+
+/**
+ * SplitVariantEditor Component
+ *
+ * Destinations and weights for an A/B split link, with the resulting
+ * share of traffic for each one.
+ */
+export const SplitVariantEditor: React.FC<SplitVariantEditorProps> = ({ variants, onChange }) => {
+  const weights = variants.map(v => Math.max(parseFloat(v.weight) || 0, 0));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  const update = (idx: number, changes: Partial<SplitVariantDraft>) => {
+    const newVariants = [...variants];
+    newVariants[idx] = { ...newVariants[idx], ...changes };
+    onChange(newVariants);
+  };
+
+  return (
+    <div className="space-y-3">
+      {variants.map((variant, idx) => (
+        <div key={idx} className="flex gap-2 items-center">
+          <input
+            type="text"
+            placeholder="ID"
+            value={variant.id}
+            onChange={(e) => update(idx, { id: e.target.value })}
+            className="w-16 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-brand-teal outline-none"
+            aria-label="Variant ID"
+          />
+          <input
+            type="text"
+            placeholder="URL"
+            value={variant.url}
+            onChange={(e) => update(idx, { url: e.target.value })}
+            className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none"
+          />
+          <input
+            type="number"
+            min={0}
+            value={variant.weight}
+            onChange={(e) => update(idx, { weight: e.target.value })}
+            className="w-20 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none"
+            aria-label="Weight"
+          />
+          <span className="w-12 text-right text-xs text-gray-500">
+            {total > 0 ? `${Math.round((weights[idx] / total) * 100)}%` : '–'}
+          </span>
+          {variants.length > 2 && (
+            <button
+              onClick={() => onChange(variants.filter((_, i) => i !== idx))}
+              className="p-2 text-red-400 hover:text-red-600 transition-colors"
+              aria-label="Remove variant"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...variants, createSplitVariantDraft(variants)])}
+        className="text-sm text-brand-teal font-medium flex items-center hover:underline"
+      >
+        <Plus className="w-4 h-4 mr-1" /> Add variant
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Palette, Check } from 'lucide-react';
+import {
+  BioBackground,
+  BioTheme,
+  BUTTON_STYLES,
+  ButtonStyle,
+  compactTheme,
+  DEFAULT_THEME_PRESET,
+  getBackgroundStyle,
+  getButtonStyle,
+  resolveTheme,
+  THEME_FONTS,
+  THEME_PRESETS,
+  ThemeFont
+} from '../utils/theme';
+
+interface ThemePickerProps {
+  value: BioTheme | null; // Compact theme, null = default preset
+  onChange: (theme: BioTheme | null) => void;
+}
+
+const BUTTON_LABELS: Record<ButtonStyle, string> = {
+  glass: 'Glass',
+  filled: 'Filled',
+  outline: 'Outline',
+  pill: 'Pill',
+  shadow: 'Shadow'
+};
+
+/**
+ * ThemePicker Component
+ *
+ * Preset swatches for bio pages, plus optional fine-tuning of the
+ * background, buttons, font and colors. Only changes from the chosen
+ * preset end up in the link.
+ */
+export const ThemePicker: React.FC<ThemePickerProps> = ({ value, onChange }) => {
+  const [customizing, setCustomizing] = useState(false);
+  const presetName = (value && value.preset) || DEFAULT_THEME_PRESET;
+  const theme = resolveTheme(value);
+
+  const update = (changes: Partial<BioTheme>) => {
+    onChange(compactTheme({ preset: presetName, ...theme, ...changes }));
+  };
+
+  const setBackgroundType = (type: BioBackground['type']) => {
+    const bg = theme.background;
+    const primary = bg.type === 'solid' ? bg.color : bg.type === 'gradient' ? bg.from : '#111827';
+    if (type === 'solid') {
+      update({ background: { type, color: primary } });
+    } else if (type === 'gradient') {
+      update({ background: { type, from: primary, to: bg.type === 'gradient' ? bg.to : primary } });
+    } else {
+      update({ background: { type, url: '' } });
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none';
+  const labelClass = 'block text-xs font-medium text-gray-500 mb-1';
+  const colorClass = 'w-full h-9 bg-white border border-gray-200 rounded-lg cursor-pointer';
+
+  return (
+    <div className="space-y-3">
+      {/* Presets */}
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+        {Object.entries(THEME_PRESETS).map(([name, preset]) => (
+          <button
+            key={name}
+            onClick={() => onChange(compactTheme({ preset: name }))}
+            className={`relative rounded-xl p-2 pt-4 text-left border-2 transition-all ${
+              name === presetName ? 'border-brand-teal' : 'border-transparent hover:border-gray-200'
+            }`}
+            style={{ ...getBackgroundStyle(preset.background), color: preset.text, fontFamily: THEME_FONTS[preset.font] }}
+            aria-label={`${name} theme`}
+          >
+            {name === presetName && (
+              <Check className="absolute top-1 right-1 w-3 h-3" />
+            )}
+            <div className="h-3 mb-2" style={getButtonStyle(preset)} />
+            <span className="text-xs font-semibold capitalize">{name}</span>
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => setCustomizing(!customizing)}
+        className="text-sm text-brand-teal font-medium flex items-center hover:underline"
+      >
+        <Palette className="w-4 h-4 mr-1" /> {customizing ? 'Hide customization' : 'Customize theme'}
+      </button>
+
+      {customizing && (
+        <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 space-y-3">
+          {/* Background */}
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Background</label>
+              <select
+                value={theme.background.type}
+                onChange={(e) => setBackgroundType(e.target.value as BioBackground['type'])}
+                className={inputClass}
+              >
+                <option value="solid">Solid</option>
+                <option value="gradient">Gradient</option>
+                <option value="image">Image</option>
+              </select>
+            </div>
+            {theme.background.type === 'solid' && (
+              <div>
+                <label className={labelClass}>Color</label>
+                <input
+                  type="color"
+                  value={theme.background.color}
+                  onChange={(e) => update({ background: { type: 'solid', color: e.target.value } })}
+                  className={colorClass}
+                />
+              </div>
+            )}
+            {theme.background.type === 'gradient' && (() => {
+              const bg = theme.background;
+              return (
+                <>
+                  <div>
+                    <label className={labelClass}>From</label>
+                    <input
+                      type="color"
+                      value={bg.from}
+                      onChange={(e) => update({ background: { ...bg, from: e.target.value } })}
+                      className={colorClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>To</label>
+                    <input
+                      type="color"
+                      value={bg.to}
+                      onChange={(e) => update({ background: { ...bg, to: e.target.value } })}
+                      className={colorClass}
+                    />
+                  </div>
+                </>
+              );
+            })()}
+            {theme.background.type === 'image' && (
+              <div className="col-span-2">
+                <label className={labelClass}>Image URL</label>
+                <input
+                  type="text"
+                  placeholder="https://example.com/background.jpg"
+                  value={theme.background.url}
+                  onChange={(e) => update({ background: { type: 'image', url: e.target.value.trim() } })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Buttons, font and colors */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <div>
+              <label className={labelClass}>Buttons</label>
+              <select
+                value={theme.button}
+                onChange={(e) => update({ button: e.target.value as ButtonStyle })}
+                className={inputClass}
+              >
+                {BUTTON_STYLES.map(style => (
+                  <option key={style} value={style}>{BUTTON_LABELS[style]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Font</label>
+              <select
+                value={theme.font}
+                onChange={(e) => update({ font: e.target.value as ThemeFont })}
+                className={inputClass}
+              >
+                {Object.keys(THEME_FONTS).map(font => (
+                  <option key={font} value={font} className="capitalize">{font}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Text</label>
+              <input
+                type="color"
+                value={theme.text}
+                onChange={(e) => update({ text: e.target.value })}
+                className={colorClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Accent</label>
+              <input
+                type="color"
+                value={theme.accent}
+                onChange={(e) => update({ accent: e.target.value })}
+                className={colorClass}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
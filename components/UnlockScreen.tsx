@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { LockKeyhole, ArrowRight } from 'lucide-react';
+
+interface UnlockScreenProps {
+  onUnlock: (passphrase: string) => Promise<boolean>; // Resolves false if the passphrase is wrong
+  initialError?: string;
+}
+
+/**
+ * UnlockScreen Component
+ *
+ * Shown for encrypted links before anything is decoded.
+ * The visitor types the passphrase the creator shared with them.
+ */
+export const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock, initialError }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState(initialError || '');
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || unlocking) return;
+
+    setUnlocking(true);
+    setError('');
+    const unlocked = await onUnlock(passphrase);
+    if (!unlocked) {
+      setError('That passphrase is not correct. Check it and try again.');
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-6">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white p-8 rounded-2xl shadow-lg max-w-sm w-full text-center"
+      >
+        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <LockKeyhole className="w-8 h-8 text-gray-700" />
+        </div>
+        <h2 className="text-xl font-bold text-gray-900 mb-2">Private Link</h2>
+        <p className="text-gray-600 text-sm mb-6">
+          Enter the passphrase you were given to unlock this link.
+        </p>
+
+        <input
+          type="password"
+          autoFocus
+          autoComplete="off"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all mb-3"
+        />
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!passphrase || unlocking}
+          className="w-full py-4 bg-black text-white font-bold rounded-xl shadow-lg hover:bg-gray-800 transition flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          <span>{unlocking ? 'Unlocking…' : 'Unlock'}</span>
+          {!unlocking && <ArrowRight className="w-5 h-5" />}
+        </button>
+      </form>
+    </div>
+  );
+};
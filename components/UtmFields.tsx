@@ -0,0 +1,102 @@
+import React from 'react';
+import { isPassthroughParam, UTM_FIELDS, UtmParams } from '../utils/utm';
+
+export interface UtmDraft {
+  source: string;
+  medium: string;
+  campaign: string;
+  content: string;
+  passthrough: string; // Comma-separated parameter names
+}
+
+export const EMPTY_UTM: UtmDraft = { source: '', medium: '', campaign: '', content: '', passthrough: '' };
+
+const UTM_LABELS: Record<keyof UtmParams, { label: string; placeholder: string }> = {
+  source: { label: 'Source', placeholder: 'instagram' },
+  medium: { label: 'Medium', placeholder: 'social' },
+  campaign: { label: 'Campaign', placeholder: 'spring_sale' },
+  content: { label: 'Content', placeholder: 'bio_link' }
+};
+
+/**
+ * Converts the form fields to payload settings, omitting empty ones
+ */
+export const utmFromDraft = (draft: UtmDraft): { utm?: UtmParams; passthrough?: string[] } => {
+  const result: { utm?: UtmParams; passthrough?: string[] } = {};
+  const utm: UtmParams = {};
+  UTM_FIELDS.forEach(field => {
+    if (draft[field].trim()) utm[field] = draft[field].trim();
+  });
+  if (Object.keys(utm).length > 0) result.utm = utm;
+
+  const names = draft.passthrough.split(',').map(name => name.trim()).filter(Boolean);
+  if (names.length > 0) result.passthrough = Array.from(new Set(names));
+  return result;
+};
+
+/**
+ * Converts payload settings back to form fields
+ */
+export const utmToDraft = (settings: { utm?: UtmParams; passthrough?: string[] }): UtmDraft => ({
+  source: (settings.utm && settings.utm.source) || '',
+  medium: (settings.utm && settings.utm.medium) || '',
+  campaign: (settings.utm && settings.utm.campaign) || '',
+  content: (settings.utm && settings.utm.content) || '',
+  passthrough: (settings.passthrough || []).join(', ')
+});
+
+interface UtmFieldsProps {
+  value: UtmDraft;
+  onChange: (value: UtmDraft) => void;
+}
+
+/**
+ * UtmFields Component
+ *
+ * UTM settings added to every destination of the link, plus the incoming
+ * query parameters (e.g. ?ref=) to forward. Parameters a destination
+ * already has are left alone.
+ */
+export const UtmFields: React.FC<UtmFieldsProps> = ({ value, onChange }) => {
+  const inputClass = 'w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none';
+  const labelClass = 'block text-xs font-medium text-gray-500 mb-1';
+  const invalid = value.passthrough.split(',').map(name => name.trim()).filter(name => name && !isPassthroughParam(name));
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {UTM_FIELDS.map(field => (
+          <div key={field}>
+            <label className={labelClass}>{UTM_LABELS[field].label}</label>
+            <input
+              type="text"
+              placeholder={UTM_LABELS[field].placeholder}
+              value={value[field]}
+              onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+      <div>
+        <label className={labelClass}>Forward parameters from the link</label>
+        <input
+          type="text"
+          placeholder="ref, fbclid"
+          value={value.passthrough}
+          onChange={(e) => onChange({ ...value, passthrough: e.target.value })}
+          className={inputClass}
+        />
+        {invalid.length > 0 ? (
+          <p className="text-xs text-red-600 mt-1">
+            Can't forward {invalid.join(', ')}. Use plain parameter names (p and k belong to ParaLink).
+          </p>
+        ) : (
+          <p className="text-xs text-gray-500 mt-1">
+            Opening the link with ?ref=… passes ref=… on to the destination.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
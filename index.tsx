@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { upgradeLegacyUrl } from './utils/linkRoutes';
+
+// Links from before path routes (/#/go?p=...) open on their path form
+upgradeLegacyUrl();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -1,6 +1,38 @@
-import React, { useState } from 'react';
-import { Link, Clipboard, ArrowRight, ShieldCheck, Zap, Globe, Plus, Trash2 } from 'lucide-react';
-import { encodePayload, LinkPayload, generateParaLink } from '../utils/payload';
+import React, { useEffect, useState } from 'react';
+import { Link, Clipboard, ArrowRight, ShieldCheck, Zap, Globe, Smartphone, Scissors } from 'lucide-react';
+import { LinkPayload, generateParaLink } from '../utils/payload';
+import { validatePayload } from '../utils/validation';
+import { getShortLinkStore, isShortLinkError } from '../utils/shortLinks';
+import { loadSigningKey, SigningKey } from '../utils/signing';
+import { SigningPanel } from '../components/SigningPanel';
+import { EncryptionPanel, EncryptionSettings } from '../components/EncryptionPanel';
+import { ScheduleFields, ScheduleDraft, scheduleFromDraft, scheduleToDraft } from '../components/ScheduleFields';
+import { UtmFields, UtmDraft, EMPTY_UTM, utmFromDraft, utmToDraft } from '../components/UtmFields';
+import { SmartRuleBuilder, SmartRuleDraft, EMPTY_SMART_RULE, smartRuleFromDraft, smartRuleToDraft } from '../components/SmartRuleBuilder';
+import { SplitVariantEditor, SplitVariantDraft, createSplitVariantDraft, splitVariantFromDraft, splitVariantToDraft } from '../components/SplitVariantEditor';
+import { DEFAULT_VARIANT_PARAM } from '../utils/split';
+import { ThemePicker } from '../components/ThemePicker';
+import { BioTheme } from '../utils/theme';
+import { getDeepLinkApp } from '../utils/deeplinks';
+import { BioBlockEditor, BioBlockDraft, EMPTY_BIO_LINK, bioBlocksFromDrafts, bioBlocksToDrafts } from '../components/BioBlockEditor';
+import { getBioBlocks, toBioContent } from '../utils/bioBlocks';
+import { LinkPreview } from '../components/LinkPreview';
+import { LinkLibrary } from '../components/LinkLibrary';
+import { LinkImporter } from '../components/LinkImporter';
+import { QrCodePanel } from '../components/QrCodePanel';
+import {
+  LibraryEntry,
+  LibraryRevision,
+  createLibraryEntry,
+  getDefaultEntryName,
+  loadLibrary,
+  parseTags,
+  reviseLibraryEntry,
+  saveLibraryEntry
+} from '../utils/library';
+
+// Short links are only offered when the deployment configures a store
+const shortLinkStore = getShortLinkStore();
 
 /**
  * Dashboard Page (Creator Mode)
@@ -8,34 +40,178 @@ import { encodePayload, LinkPayload, generateParaLink } from '../utils/payload';
  * Creator-friendly interface for generating:
  * - Direct links (single destination)
  * - Bio pages (multiple links)
+ * - Smart links (destination picked per visitor by rules)
+ * - Split links (weighted A/B rotation between destinations)
  * 
+ * A live preview shows the link as visitors in other apps would see it.
+ * Generated links are kept in a local library for editing and sharing,
+ * and any existing ParaLink can be pasted back in to edit it.
  * All link data is encoded in the URL (stateless architecture).
  */
 const Dashboard: React.FC = () => {
-  const [tab, setTab] = useState<'direct' | 'bio'>('direct');
+  const [tab, setTab] = useState<'direct' | 'bio' | 'smart' | 'split'>('direct');
   
   // Direct link state
   const [directUrl, setDirectUrl] = useState('');
   const [directTitle, setDirectTitle] = useState('');
+  const [directOpenInApp, setDirectOpenInApp] = useState(false);
   
   // Bio page state
   const [bioName, setBioName] = useState('');
-  const [bioLinks, setBioLinks] = useState<{title: string, url: string}[]>([
-    {title: '', url: ''}
+  const [bioBlocks, setBioBlocks] = useState<BioBlockDraft[]>([
+    {...EMPTY_BIO_LINK}
+  ]);
+  const [bioTheme, setBioTheme] = useState<BioTheme | null>(null);
+
+  // Smart link state
+  const [smartUrl, setSmartUrl] = useState('');
+  const [smartRules, setSmartRules] = useState<SmartRuleDraft[]>([
+    {...EMPTY_SMART_RULE}
   ]);
+
+  // Split link state
+  const [splitVariants, setSplitVariants] = useState<SplitVariantDraft[]>(() => {
+    const first = createSplitVariantDraft();
+    return [first, createSplitVariantDraft([first])];
+  });
+  const [variantParam, setVariantParam] = useState('');
+
+  // Activation window for the whole link
+  const [schedule, setSchedule] = useState<ScheduleDraft>({ notBefore: '', notAfter: '' });
+
+  // Image shown when the link is shared in social apps
+  const [previewImage, setPreviewImage] = useState('');
+
+  // UTM settings and forwarded parameters for every destination
+  const [utm, setUtm] = useState<UtmDraft>({...EMPTY_UTM});
   
   // Generated link state
   const [generatedLink, setGeneratedLink] = useState('');
   const [copied, setCopied] = useState(false);
+  const [formError, setFormError] = useState('');
+  const [savedToLibrary, setSavedToLibrary] = useState(true);
+
+  // Library state (stored in this browser, see utils/library.ts)
+  const [library, setLibrary] = useState<LibraryEntry[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [entryName, setEntryName] = useState('');
+  const [entryTags, setEntryTags] = useState('');
+
+  // Signing state (key persists in localStorage)
+  const [signingKey, setSigningKey] = useState<SigningKey | null>(() => loadSigningKey());
+  const [signLinks, setSignLinks] = useState(() => !!loadSigningKey());
+
+  // Encryption state
+  const [encryption, setEncryption] = useState<EncryptionSettings>({
+    enabled: false,
+    passphrase: '',
+    keyInLink: false
+  });
+
+  // Short link state
+  const [shortenLink, setShortenLink] = useState(false);
+
+  const refreshLibrary = () => {
+    loadLibrary().then(setLibrary, () => setLibrary([]));
+  };
+
+  useEffect(refreshLibrary, []);
 
   /**
-   * Generates a ParaLink URL from the current form data
+   * Fills the form from a payload, switching to its tab
+   */
+  const loadPayload = (payload: LinkPayload) => {
+    if (payload.mode === 'direct') {
+      setDirectUrl(payload.url || '');
+      setDirectTitle(payload.title || '');
+      setDirectOpenInApp(!!payload.openInApp);
+    } else if (payload.mode === 'smart') {
+      setSmartUrl(payload.url || '');
+      setSmartRules(payload.rules && payload.rules.length > 0
+        ? payload.rules.map(smartRuleToDraft)
+        : [{...EMPTY_SMART_RULE}]);
+    } else if (payload.mode === 'split') {
+      setSplitVariants((payload.variants || []).map(splitVariantToDraft));
+      setVariantParam(payload.variantParam || '');
+    } else {
+      const blocks = bioBlocksToDrafts(getBioBlocks(payload));
+      setBioName(payload.profileName || '');
+      setBioBlocks(blocks.some(b => b.type === 'link') ? blocks : [...blocks, {...EMPTY_BIO_LINK}]);
+      setBioTheme(payload.theme || null);
+    }
+    setSchedule(scheduleToDraft(payload));
+    setPreviewImage(payload.previewImage || '');
+    setUtm(utmToDraft(payload));
+    setTab(payload.mode);
+    setGeneratedLink('');
+    setFormError('');
+  };
+
+  /**
+   * Opens a library entry (or one of its earlier versions) for editing
+   */
+  const handleEdit = (entry: LibraryEntry, revision?: LibraryRevision) => {
+    loadPayload(revision ? revision.payload : entry.payload);
+    setEditingId(entry.id);
+    setEntryName(entry.name);
+    setEntryTags(entry.tags.join(', '));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  /**
+   * Loads a pasted ParaLink into the form
+   * Links already in the library are edited as that entry
+   */
+  const handleImportLink = (payload: LinkPayload, link: string) => {
+    const entry = library.find(e => e.link === link);
+    if (entry) {
+      handleEdit(entry);
+      return;
+    }
+    loadPayload(payload);
+    stopEditing();
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    setEntryName('');
+    setEntryTags('');
+  };
+
+  /**
+   * Saves a generated link to the library, as a new version when editing
+   */
+  const saveToLibrary = async (payload: LinkPayload, link: string) => {
+    const fields = {
+      name: entryName.trim() || getDefaultEntryName(payload),
+      tags: parseTags(entryTags),
+      payload,
+      link
+    };
+    const editing = library.find(e => e.id === editingId);
+    const entry = editing ? reviseLibraryEntry(editing, fields) : createLibraryEntry(fields);
+    try {
+      await saveLibraryEntry(entry);
+      setSavedToLibrary(true);
+    } catch (e) {
+      setSavedToLibrary(false);
+      return;
+    }
+    if (editing) {
+      setEntryName(entry.name);
+    }
+    refreshLibrary();
+  };
+
+  /**
+   * Builds the payload from the current form data
+   * Returns null while the form has nothing to link to yet
    */
-  const handleGenerate = () => {
+  const buildPayload = (): LinkPayload | null => {
     let data: LinkPayload;
 
     if (tab === 'direct') {
-      if (!directUrl.trim()) return;
+      if (!directUrl.trim()) return null;
       
       let u = directUrl.trim();
       if (!/^https?:\/\//i.test(u)) {
@@ -45,32 +221,100 @@ const Dashboard: React.FC = () => {
       data = {
         mode: 'direct',
         url: u,
-        title: directTitle.trim() || 'Content'
+        title: directTitle.trim() || 'Content',
+        ...(directOpenInApp && getDeepLinkApp(u) ? { openInApp: true } : {}),
+        ...scheduleFromDraft(schedule)
+      };
+    } else if (tab === 'smart') {
+      if (!smartUrl.trim()) return null;
+      
+      let u = smartUrl.trim();
+      if (!/^https?:\/\//i.test(u)) {
+        u = 'https://' + u;
+      }
+      
+      data = {
+        mode: 'smart',
+        url: u,
+        rules: smartRules.filter(r => r.url.trim()).map(smartRuleFromDraft),
+        ...scheduleFromDraft(schedule)
+      };
+    } else if (tab === 'split') {
+      const validVariants = splitVariants.filter(v => v.url.trim());
+      if (validVariants.length === 0) return null;
+      
+      data = {
+        mode: 'split',
+        variants: validVariants.map(splitVariantFromDraft),
+        ...(variantParam.trim() ? { variantParam: variantParam.trim() } : {}),
+        ...scheduleFromDraft(schedule)
       };
     } else {
       // Bio mode
-      const validLinks = bioLinks.filter(l => l.url.trim() && l.title.trim());
-      if (validLinks.length === 0) return;
+      const blocks = bioBlocksFromDrafts(bioBlocks);
+      if (!blocks.some(b => b.type === 'link')) return null;
       
       data = {
         mode: 'bio',
         profileName: bioName.trim() || 'My Links',
-        links: validLinks.map(l => {
-          let u = l.url.trim();
-          if (!/^https?:\/\//i.test(u)) {
-            u = 'https://' + u;
-          }
-          return { 
-            title: l.title.trim(), 
-            url: u 
-          };
-        })
+        ...toBioContent(blocks),
+        ...(bioTheme ? { theme: bioTheme } : {}),
+        ...scheduleFromDraft(schedule)
       };
     }
 
-    const link = generateParaLink(data);
+    if (previewImage.trim()) {
+      data = { ...data, previewImage: previewImage.trim() };
+    }
+
+    return { ...data, ...utmFromDraft(utm) };
+  };
+
+  // Preview follows the form as it's typed, through the same validator
+  const previewPayload = buildPayload();
+  const previewResult = previewPayload ? validatePayload(previewPayload) : null;
+
+  /**
+   * Generates a ParaLink URL from the current form data
+   */
+  const handleGenerate = async () => {
+    const data = buildPayload();
+    if (!data) return;
+
+    // Same validator the Viewer uses, so we never hand out a link it would reject
+    const result = validatePayload(data);
+    if (result.ok === false) {
+      setFormError(result.error.message);
+      setGeneratedLink('');
+      return;
+    }
+
+    if (encryption.enabled && !encryption.passphrase) {
+      setFormError('enter a passphrase or turn encryption off');
+      setGeneratedLink('');
+      return;
+    }
+
+    let link: string;
+    try {
+      link = await generateParaLink(result.payload, {
+        signingKey: signLinks ? signingKey : null,
+        passphrase: encryption.enabled ? encryption.passphrase : undefined,
+        includeKey: encryption.keyInLink,
+        shorten: shortenLink ? shortLinkStore : null
+      });
+    } catch (e) {
+      setFormError(isShortLinkError(e)
+        ? `the link could not be shortened (${e.message})`
+        : 'the link could not be signed or encrypted in this browser');
+      setGeneratedLink('');
+      return;
+    }
+
     setGeneratedLink(link);
+    setFormError('');
     setCopied(false);
+    await saveToLibrary(result.payload, link);
   };
 
   const copyToClipboard = () => {
@@ -95,7 +339,7 @@ const Dashboard: React.FC = () => {
       </nav>
 
       {/* Main Content */}
-      <main className="max-w-3xl mx-auto px-4 py-12">
+      <main className="max-w-6xl mx-auto px-4 py-12">
         <div className="text-center mb-10">
           <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900 mb-3">
             Create Smart Links
@@ -105,190 +349,405 @@ const Dashboard: React.FC = () => {
           </p>
         </div>
 
-        {/* Tab Switcher */}
-        <div className="flex justify-center mb-8">
-          <div className="bg-white p-1 rounded-xl shadow-sm border border-gray-200 inline-flex">
-            <button 
-              onClick={() => {
-                setTab('direct');
-                setGeneratedLink('');
-              }}
-              className={`px-6 py-2 rounded-lg text-sm font-semibold transition-all ${
-                tab === 'direct' 
-                  ? 'bg-black text-white shadow-md' 
-                  : 'text-gray-500 hover:text-gray-900'
-              }`}
-            >
-              Direct Link
-            </button>
-            <button 
-              onClick={() => {
-                setTab('bio');
-                setGeneratedLink('');
-              }}
-              className={`px-6 py-2 rounded-lg text-sm font-semibold transition-all ${
-                tab === 'bio' 
-                  ? 'bg-black text-white shadow-md' 
-                  : 'text-gray-500 hover:text-gray-900'
-              }`}
-            >
-              Bio Page
-            </button>
-          </div>
-        </div>
+        <div className="grid gap-8 lg:grid-cols-[minmax(0,1fr)_360px] items-start">
+          <div>
+            {/* Import */}
+            <div className="mb-6">
+              <LinkImporter onImport={handleImportLink} />
+            </div>
 
-        {/* Form Card */}
-        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
-          <div className="bg-gray-900 px-6 py-4 flex items-center justify-between">
-            <div className="flex items-center space-x-2 text-white">
-              <Zap className="w-4 h-4 text-brand-teal" />
-              <span className="font-medium text-sm">
-                {tab === 'direct' ? 'Single Redirect' : 'Bio Profile'} Generator
-              </span>
+            {/* Tab Switcher */}
+            <div className="flex justify-center mb-8">
+              <div className="bg-white p-1 rounded-xl shadow-sm border border-gray-200 inline-flex">
+                <button 
+                  onClick={() => {
+                    setTab('direct');
+                    setGeneratedLink('');
+                  }}
+                  className={`px-6 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    tab === 'direct' 
+                      ? 'bg-black text-white shadow-md' 
+                      : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  Direct Link
+                </button>
+                <button 
+                  onClick={() => {
+                    setTab('bio');
+                    setGeneratedLink('');
+                  }}
+                  className={`px-6 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    tab === 'bio' 
+                      ? 'bg-black text-white shadow-md' 
+                      : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  Bio Page
+                </button>
+                <button 
+                  onClick={() => {
+                    setTab('smart');
+                    setGeneratedLink('');
+                  }}
+                  className={`px-6 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    tab === 'smart' 
+                      ? 'bg-black text-white shadow-md' 
+                      : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  Smart Link
+                </button>
+                <button 
+                  onClick={() => {
+                    setTab('split');
+                    setGeneratedLink('');
+                  }}
+                  className={`px-6 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    tab === 'split' 
+                      ? 'bg-black text-white shadow-md' 
+                      : 'text-gray-500 hover:text-gray-900'
+                  }`}
+                >
+                  A/B Split
+                </button>
+              </div>
             </div>
-          </div>
+
+            {/* Form Card */}
+            <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
+              <div className="bg-gray-900 px-6 py-4 flex items-center justify-between">
+                <div className="flex items-center space-x-2 text-white">
+                  <Zap className="w-4 h-4 text-brand-teal" />
+                  <span className="font-medium text-sm">
+                    {tab === 'direct' ? 'Single Redirect' : tab === 'smart' ? 'Smart Routing' : tab === 'split' ? 'A/B Split' : 'Bio Profile'} Generator
+                  </span>
+                </div>
+              </div>
           
-          <div className="p-6 md:p-8">
-            <div className="space-y-6">
+              <div className="p-6 md:p-8">
+                <div className="space-y-6">
               
-              {/* Direct Mode Inputs */}
-              {tab === 'direct' && (
-                <>
+                  {/* Direct Mode Inputs */}
+                  {tab === 'direct' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-1">
+                          Destination URL
+                        </label>
+                        <div className="relative">
+                          <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                            <Globe className="h-5 w-5 text-gray-400" />
+                          </div>
+                          <input
+                            type="text"
+                            placeholder="https://example.com"
+                            value={directUrl}
+                            onChange={(e) => setDirectUrl(e.target.value)}
+                            className="w-full pl-11 pr-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
+                          />
+                        </div>
+                      </div>
+                      {getDeepLinkApp(directUrl) && (
+                        <div>
+                          <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={directOpenInApp}
+                              onChange={(e) => setDirectOpenInApp(e.target.checked)}
+                              className="rounded text-brand-teal focus:ring-brand-teal"
+                            />
+                            <Smartphone className="w-4 h-4 text-gray-400" />
+                            <span>Open in the {getDeepLinkApp(directUrl)} app when installed</span>
+                          </label>
+                          <p className="text-xs text-gray-500 mt-1">
+                            From in-app browsers on iPhone, the link opens in Safari, which hands it to the app only if iOS offers to.
+                          </p>
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-1">
+                          Link Title (optional)
+                        </label>
+                        <input
+                          type="text"
+                          placeholder="e.g. Exclusive Content"
+                          value={directTitle}
+                          onChange={(e) => setDirectTitle(e.target.value)}
+                          className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {/* Bio Mode Inputs */}
+                  {tab === 'bio' && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-1">
+                          Profile Name
+                        </label>
+                        <input
+                          type="text"
+                          placeholder="@username or Your Name"
+                          value={bioName}
+                          onChange={(e) => setBioName(e.target.value)}
+                          className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
+                        />
+                      </div>
+                      <div className="space-y-3">
+                        <label className="block text-sm font-semibold text-gray-700">
+                          Content
+                        </label>
+                        <BioBlockEditor blocks={bioBlocks} onChange={setBioBlocks} />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-1">
+                          Theme
+                        </label>
+                        <ThemePicker value={bioTheme} onChange={setBioTheme} />
+                      </div>
+                    </>
+                  )}
+
+                  {/* Smart Mode Inputs */}
+                  {tab === 'smart' && (
+                    <>
+                      <div className="space-y-3">
+                        <label className="block text-sm font-semibold text-gray-700">
+                          Rules
+                        </label>
+                        <p className="text-xs text-gray-500">
+                          Checked from top to bottom. The first rule whose conditions all match picks the destination.
+                        </p>
+                        <SmartRuleBuilder rules={smartRules} onChange={setSmartRules} defaultUrl={smartUrl} />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-1">
+                          Default Destination
+                        </label>
+                        <div className="relative">
+                          <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                            <Globe className="h-5 w-5 text-gray-400" />
+                          </div>
+                          <input
+                            type="text"
+                            placeholder="https://example.com (when no rule matches)"
+                            value={smartUrl}
+                            onChange={(e) => setSmartUrl(e.target.value)}
+                            className="w-full pl-11 pr-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
+                          />
+                        </div>
+                      </div>
+                    </>
+                  )}
+
+                  {/* Split Mode Inputs */}
+                  {tab === 'split' && (
+                    <>
+                      <div className="space-y-3">
+                        <label className="block text-sm font-semibold text-gray-700">
+                          Variants
+                        </label>
+                        <p className="text-xs text-gray-500">
+                          Each visitor is assigned one variant by weight and keeps it on later visits.
+                        </p>
+                        <SplitVariantEditor variants={splitVariants} onChange={setSplitVariants} />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-1">
+                          Variant Parameter (optional)
+                        </label>
+                        <input
+                          type="text"
+                          placeholder={DEFAULT_VARIANT_PARAM}
+                          value={variantParam}
+                          onChange={(e) => setVariantParam(e.target.value)}
+                          className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Added to the destination, e.g. ?{variantParam.trim() || DEFAULT_VARIANT_PARAM}=A (unless it already has one)
+                        </p>
+                      </div>
+                    </>
+                  )}
+
+                  {/* Schedule */}
                   <div>
                     <label className="block text-sm font-semibold text-gray-700 mb-1">
-                      Destination URL
+                      Schedule (optional)
                     </label>
-                    <div className="relative">
-                      <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                        <Globe className="h-5 w-5 text-gray-400" />
-                      </div>
-                      <input
-                        type="text"
-                        placeholder="https://example.com"
-                        value={directUrl}
-                        onChange={(e) => setDirectUrl(e.target.value)}
-                        className="w-full pl-11 pr-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
-                      />
-                    </div>
+                    <ScheduleFields value={schedule} onChange={setSchedule} />
                   </div>
+
+                  {/* UTM Tagging */}
                   <div>
                     <label className="block text-sm font-semibold text-gray-700 mb-1">
-                      Link Title (optional)
+                      UTM Tags (optional)
                     </label>
-                    <input
-                      type="text"
-                      placeholder="e.g. Exclusive Content"
-                      value={directTitle}
-                      onChange={(e) => setDirectTitle(e.target.value)}
-                      className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
-                    />
+                    <UtmFields value={utm} onChange={setUtm} />
                   </div>
-                </>
-              )}
 
-              {/* Bio Mode Inputs */}
-              {tab === 'bio' && (
-                <>
+                  {/* Social Preview */}
                   <div>
                     <label className="block text-sm font-semibold text-gray-700 mb-1">
-                      Profile Name
+                      Preview Image (optional)
                     </label>
                     <input
-                      type="text"
-                      placeholder="@username or Your Name"
-                      value={bioName}
-                      onChange={(e) => setBioName(e.target.value)}
+                      type="url"
+                      placeholder="https://example.com/cover.jpg"
+                      value={previewImage}
+                      onChange={(e) => setPreviewImage(e.target.value)}
                       className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
                     />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Shown when the link is shared in iMessage, Discord, X and other apps (needs the preview server).
+                    </p>
                   </div>
-                  <div className="space-y-3">
-                    <label className="block text-sm font-semibold text-gray-700">
-                      Links
-                    </label>
-                    {bioLinks.map((link, idx) => (
-                      <div key={idx} className="flex gap-2">
-                        <input
-                          type="text"
-                          placeholder="Title"
-                          value={link.title}
-                          onChange={(e) => {
-                            const newLinks = [...bioLinks];
-                            newLinks[idx].title = e.target.value;
-                            setBioLinks(newLinks);
-                          }}
-                          className="w-1/3 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none"
-                        />
+
+                  {/* Library */}
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="block text-sm font-semibold text-gray-700">
+                        Save to Library
+                      </label>
+                      {editingId && (
+                        <button
+                          onClick={stopEditing}
+                          className="text-xs text-brand-teal font-medium hover:underline"
+                        >
+                          Save as a new link instead
+                        </button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="text"
+                        placeholder="Name (optional)"
+                        value={entryName}
+                        onChange={(e) => setEntryName(e.target.value)}
+                        className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
+                      />
+                      <input
+                        type="text"
+                        placeholder="Tags, comma separated"
+                        value={entryTags}
+                        onChange={(e) => setEntryTags(e.target.value)}
+                        className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-brand-teal outline-none transition-all"
+                      />
+                    </div>
+                    {editingId && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Generating updates this library entry and keeps the previous version in its history.
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Signing */}
+                  <SigningPanel
+                    signingKey={signingKey}
+                    onKeyChange={setSigningKey}
+                    enabled={signLinks}
+                    onToggle={setSignLinks}
+                  />
+
+                  {/* Encryption */}
+                  <EncryptionPanel settings={encryption} onChange={setEncryption} />
+
+                  {/* Short Link */}
+                  {shortLinkStore && (
+                    <div className="bg-gray-50 border border-gray-200 rounded-xl p-4">
+                      <label className="flex items-center space-x-2 text-sm font-semibold text-gray-700 cursor-pointer">
                         <input
-                          type="text"
-                          placeholder="URL"
-                          value={link.url}
-                          onChange={(e) => {
-                            const newLinks = [...bioLinks];
-                            newLinks[idx].url = e.target.value;
-                            setBioLinks(newLinks);
-                          }}
-                          className="flex-1 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-brand-teal outline-none"
+                          type="checkbox"
+                          checked={shortenLink}
+                          onChange={(e) => setShortenLink(e.target.checked)}
+                          className="rounded text-brand-teal focus:ring-brand-teal"
                         />
-                        {bioLinks.length > 1 && (
-                          <button 
-                            onClick={() => setBioLinks(bioLinks.filter((_, i) => i !== idx))}
-                            className="p-2 text-red-400 hover:text-red-600 transition-colors"
-                            aria-label="Remove link"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        )}
-                      </div>
-                    ))}
-                    <button 
-                      onClick={() => setBioLinks([...bioLinks, {title: '', url: ''}])}
-                      className="text-sm text-brand-teal font-medium flex items-center hover:underline"
-                    >
-                      <Plus className="w-4 h-4 mr-1" /> Add another link
-                    </button>
-                  </div>
-                </>
-              )}
-
-              {/* Generate Button */}
-              <button
-                onClick={handleGenerate}
-                className="w-full py-4 px-6 rounded-xl text-white font-bold text-lg flex items-center justify-center space-x-2 transition-all bg-black hover:bg-gray-800 shadow-lg active:scale-[0.99]"
-              >
-                <span>Generate Smart Link</span>
-                <ArrowRight className="w-5 h-5" />
-              </button>
-            </div>
+                        <Scissors className="w-4 h-4 text-gray-400" />
+                        <span>Shorten link</span>
+                      </label>
+                      {shortenLink && (
+                        <p className="text-xs text-gray-500 mt-2">
+                          The link content is stored on the short-link service and the link becomes …/s/&lt;code&gt;.
+                        </p>
+                      )}
+                    </div>
+                  )}
 
-            {/* Generated Link Display */}
-            {generatedLink && (
-              <div className="mt-8 pt-8 border-t border-gray-100 animate-fadeIn">
-                <div className="flex items-center justify-between mb-2">
-                  <label className="text-sm font-semibold text-gray-700">
-                    Generated Link
-                  </label>
-                  <span className="text-xs text-green-600 font-medium bg-green-50 px-2 py-1 rounded-full">
-                    Ready
-                  </span>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <div className="flex-1 bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-gray-600 font-mono text-xs md:text-sm truncate">
-                    {generatedLink}
-                  </div>
+                  {/* Generate Button */}
                   <button
-                    onClick={copyToClipboard}
-                    className="flex-shrink-0 bg-brand-teal text-white p-3 rounded-xl hover:bg-teal-600 transition-colors shadow-md"
-                    aria-label="Copy link"
+                    onClick={handleGenerate}
+                    className="w-full py-4 px-6 rounded-xl text-white font-bold text-lg flex items-center justify-center space-x-2 transition-all bg-black hover:bg-gray-800 shadow-lg active:scale-[0.99]"
                   >
-                    {copied ? (
-                      <ShieldCheck className="w-5 h-5" />
-                    ) : (
-                      <Clipboard className="w-5 h-5" />
-                    )}
+                    <span>Generate Smart Link</span>
+                    <ArrowRight className="w-5 h-5" />
                   </button>
+
+                  {formError && (
+                    <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-xl px-4 py-3">
+                      Can't generate this link: {formError}
+                    </p>
+                  )}
                 </div>
+
+                {/* Generated Link Display */}
+                {generatedLink && (
+                  <div className="mt-8 pt-8 border-t border-gray-100 animate-fadeIn">
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-semibold text-gray-700">
+                        Generated Link
+                      </label>
+                      <span className="text-xs text-green-600 font-medium bg-green-50 px-2 py-1 rounded-full">
+                        Ready
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <div className="flex-1 bg-gray-50 border border-gray-200 rounded-xl px-4 py-3 text-gray-600 font-mono text-xs md:text-sm truncate">
+                        {generatedLink}
+                      </div>
+                      <button
+                        onClick={copyToClipboard}
+                        className="flex-shrink-0 bg-brand-teal text-white p-3 rounded-xl hover:bg-teal-600 transition-colors shadow-md"
+                        aria-label="Copy link"
+                      >
+                        {copied ? (
+                          <ShieldCheck className="w-5 h-5" />
+                        ) : (
+                          <Clipboard className="w-5 h-5" />
+                        )}
+                      </button>
+                    </div>
+                    {!savedToLibrary && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        This browser couldn't save the link to your library.
+                      </p>
+                    )}
+                    <div className="mt-6">
+                      <QrCodePanel link={generatedLink} />
+                    </div>
+                  </div>
+                )}
               </div>
-            )}
+            </div>
+
+            {/* Link Library */}
+            <div className="mt-8">
+              <LinkLibrary
+                entries={library}
+                editingId={editingId}
+                onEdit={handleEdit}
+                onChange={refreshLibrary}
+              />
+            </div>
+          </div>
+
+          {/* Live Preview */}
+          <div className="lg:sticky lg:top-8">
+            <LinkPreview
+              payload={previewResult && previewResult.ok ? previewResult.payload : null}
+              error={previewResult && previewResult.ok === false ? previewResult.error.message : undefined}
+            />
           </div>
         </div>
       </main>
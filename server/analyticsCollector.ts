@@ -0,0 +1,130 @@
+/**
+ * Analytics Collector (development)
+ * Receives the events the beacon sink (utils/analytics.ts) sends, prints
+ * one line per event and keeps counts per event type.
+ *
+ * Usage: npm run analytics-collector -- [--port 8788] [--file events.ndjson]
+ *
+ * POST /events   one event (JSON), as sent by navigator.sendBeacon
+ * GET  /events   counts per event type since start
+ *
+ * With --file, every event is also appended as a line of JSON.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { appendFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { AnalyticsRecord } from '../utils/analytics';
+
+const DEFAULT_PORT = 8788;
+
+// Events are small; anything bigger is not from the beacon sink
+const MAX_EVENT_BYTES = 16 * 1024;
+
+/**
+ * Reads a request body, or resolves null if it is too large for an event
+ */
+const readBody = (req: IncomingMessage): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    let tooLarge = false;
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      if (!tooLarge) {
+        body += chunk;
+        tooLarge = body.length > MAX_EVENT_BYTES;
+      }
+    });
+    req.on('end', () => resolve(tooLarge ? null : body));
+    req.on('error', reject);
+  });
+
+const isRecord = (data: unknown): data is AnalyticsRecord => {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+  const { type, timestamp, env } = data as Record<string, unknown>;
+  return typeof type === 'string' && typeof timestamp === 'number' && typeof env === 'object' && env !== null;
+};
+
+/**
+ * One readable line per event, e.g. "link_clicked index=2 · iOS Instagram"
+ */
+const describe = (record: AnalyticsRecord): string => {
+  const { type, env, timestamp, ...fields } = record;
+  const details = Object.entries(fields).map(([key, value]) => `${key}=${value}`).join(' ');
+  return [new Date(timestamp).toISOString(), type, details, '·', env.os, env.appName].filter(Boolean).join(' ');
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      file: { type: 'string' }
+    }
+  });
+
+  const port = Number(values.port || process.env.PORT || DEFAULT_PORT);
+  const counts: Record<string, number> = {};
+
+  const send = (res: ServerResponse, status: number, body?: unknown) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type'
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (req.method === 'OPTIONS') {
+      return send(res, 204);
+    }
+    if (path !== '/events') {
+      return send(res, 404, { error: 'not found' });
+    }
+    if (req.method === 'GET') {
+      return send(res, 200, counts);
+    }
+    if (req.method !== 'POST') {
+      return send(res, 405, { error: 'method not allowed' });
+    }
+
+    const body = await readBody(req);
+    if (body === null) {
+      return send(res, 413, { error: 'event too large' });
+    }
+    let record: unknown;
+    try {
+      record = JSON.parse(body);
+    } catch (e) {
+      record = null;
+    }
+    if (!isRecord(record)) {
+      return send(res, 400, { error: 'body must be an analytics event' });
+    }
+
+    counts[record.type] = (counts[record.type] || 0) + 1;
+    console.log(describe(record));
+    if (values.file) {
+      appendFileSync(values.file, JSON.stringify(record) + '\n');
+    }
+    send(res, 204);
+  };
+
+  createServer((req, res) => {
+    handle(req, res).catch(e => {
+      console.error(e);
+      if (!res.headersSent) {
+        send(res, 500, { error: 'internal error' });
+      }
+    });
+  }).listen(port, () => {
+    console.log(`Collecting analytics on http://localhost:${port}/events${values.file ? ` (saved to ${values.file})` : ''}`);
+  });
+};
+
+main();
@@ -0,0 +1,162 @@
+/**
+ * Social Preview Server
+ * Serves the built app (dist/) and fills in per-link Open Graph and
+ * Twitter card tags for /go/<payload> and /s/<code> pages, so apps that
+ * unfurl shared links show the link's title and image.
+ *
+ * Usage: npm run build && npm run preview-server -- [--port 8080] [--dist dist] [--origin <url>] [--short-links <url>]
+ *
+ * Static files are served as they are; every other path falls through to
+ * index.html like the SPA rewrite in firebase.json. Encrypted links and
+ * links that don't decode get the generic preview.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFileSync, statSync } from 'node:fs';
+import { extname, join, normalize, resolve, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import { LinkPayload, parsePayload } from '../utils/payload';
+import { isEncryptedPayload } from '../utils/encryption';
+import { readViewerRoute } from '../utils/linkRoutes';
+import { createHttpShortLinkStore, getShortLinkStore, ShortLinkStore } from '../utils/shortLinks';
+import { DEFAULT_SOCIAL_PREVIEW, getSocialPreview, injectSocialPreview } from '../utils/socialPreview';
+
+const DEFAULT_PORT = 8080;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+  '.webmanifest': 'application/manifest+json'
+};
+
+/**
+ * Gets the file under `root` a request path points at, or null if there
+ * is none (or the path tries to leave `root`)
+ */
+const findStaticFile = (root: string, pathname: string): string | null => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch (e) {
+    return null;
+  }
+  const file = normalize(join(root, decoded));
+  if (!file.startsWith(root + sep)) {
+    return null;
+  }
+  try {
+    return statSync(file).isFile() ? file : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Gets the payload a Viewer URL carries, looking short codes up in the store
+ * Resolves null for encrypted, broken or unknown links.
+ */
+const readLinkPayload = async (url: URL, store: ShortLinkStore | null): Promise<LinkPayload | null> => {
+  const route = readViewerRoute(url);
+  if (!route) {
+    return null;
+  }
+  let encoded: string | null;
+  if (route.route === 's') {
+    const record = store ? await store.resolve(route.code).catch(() => null) : null;
+    encoded = record ? record.payload : null;
+  } else {
+    encoded = route.payload;
+  }
+  if (!encoded || isEncryptedPayload(encoded)) {
+    return null;
+  }
+  const result = parsePayload(encoded);
+  return result.ok === true ? result.payload : null;
+};
+
+/**
+ * Gets the og:url for a Viewer URL: its path form without `p` or `k`, so
+ * crawlers never cache a key (or repeat the payload in the query)
+ */
+const getCanonicalUrl = (url: URL): string => {
+  const canonical = new URL(url.pathname, url.origin);
+  url.searchParams.forEach((value, name) => {
+    if (name !== 'p' && name !== 'k') {
+      canonical.searchParams.append(name, value);
+    }
+  });
+  const payload = url.pathname === '/go' ? url.searchParams.get('p') : null;
+  if (payload) {
+    canonical.pathname = `/go/${encodeURIComponent(payload)}`;
+  }
+  return canonical.href;
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      dist: { type: 'string', default: 'dist' },
+      origin: { type: 'string' },
+      'short-links': { type: 'string' }
+    }
+  });
+
+  const port = Number(values.port || process.env.PORT || DEFAULT_PORT);
+  const root = resolve(values.dist);
+  const store = values['short-links'] ? createHttpShortLinkStore(values['short-links']) : getShortLinkStore();
+  const indexHtml = readFileSync(join(root, 'index.html'), 'utf8');
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    // The address crawlers were given, for og:url
+    const proto = String(req.headers['x-forwarded-proto'] || 'http').split(',')[0];
+    const origin = values.origin ? values.origin.replace(/\/+$/, '') : `${proto}://${req.headers.host || `localhost:${port}`}`;
+    const url = new URL(req.url || '/', origin);
+
+    const file = url.pathname === '/' ? null : findStaticFile(root, url.pathname);
+    if (file) {
+      res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file).toLowerCase()] || 'application/octet-stream' });
+      res.end(req.method === 'HEAD' ? undefined : readFileSync(file));
+      return;
+    }
+
+    let html = indexHtml;
+    if (readViewerRoute(url)) {
+      const payload = await readLinkPayload(url, store);
+      html = injectSocialPreview(indexHtml, payload ? getSocialPreview(payload) : DEFAULT_SOCIAL_PREVIEW, getCanonicalUrl(url));
+    }
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES['.html'], 'Cache-Control': 'no-cache' });
+    res.end(req.method === 'HEAD' ? undefined : html);
+  };
+
+  createServer((req, res) => {
+    handle(req, res).catch(e => {
+      console.error(e);
+      if (!res.headersSent) {
+        res.writeHead(500);
+        res.end();
+      }
+    });
+  }).listen(port, () => {
+    console.log(`Serving ${root} with link previews on http://localhost:${port}`);
+  });
+};
+
+main();
@@ -0,0 +1,172 @@
+/**
+ * Short-Link Reference Server
+ * Local stand-in for a hosted short-link service, serving the API that
+ * createHttpShortLinkStore (utils/shortLinks.ts) talks to.
+ *
+ * Usage: npm run short-links -- [--port 8787] [--file short-links.json] [--allow-origin <origin>]
+ *
+ * Records live in memory; with --file they are loaded on start and written
+ * back after every new link. Point config.shortLinks.endpoint at this server.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { parsePayload } from '../utils/payload';
+import { isEncryptedPayload } from '../utils/encryption';
+import {
+  createMemoryShortLinkStore,
+  MAX_SHORT_LINK_PAYLOAD,
+  ShortLinkRecord
+} from '../utils/shortLinks';
+
+const DEFAULT_PORT = 8787;
+
+/**
+ * Reads the records saved by a previous run
+ */
+const loadRecords = (file: string): ShortLinkRecord[] => {
+  if (!existsSync(file)) {
+    return [];
+  }
+  const data = JSON.parse(readFileSync(file, 'utf8'));
+  if (!Array.isArray(data)) {
+    throw new Error(`${file} is not a short-link file (expected a JSON array)`);
+  }
+  return data.filter(record => record && typeof record.code === 'string' && typeof record.payload === 'string');
+};
+
+/**
+ * Writes all records, via a temporary file so a crash never leaves half a file
+ */
+const saveRecords = (file: string, records: ShortLinkRecord[]) => {
+  const temp = `${file}.tmp`;
+  writeFileSync(temp, JSON.stringify(records, null, 2) + '\n');
+  renameSync(temp, file);
+};
+
+/**
+ * Checks that a submitted payload is one the Viewer could open
+ * Encrypted payloads can't be read here and are only checked for size.
+ */
+const checkPayload = (payload: unknown): string | null => {
+  if (typeof payload !== 'string' || !payload) {
+    return 'payload must be a non-empty string';
+  }
+  if (payload.length > MAX_SHORT_LINK_PAYLOAD) {
+    return `payload is longer than ${MAX_SHORT_LINK_PAYLOAD} characters`;
+  }
+  if (isEncryptedPayload(payload)) {
+    return null;
+  }
+  const result = parsePayload(payload);
+  return result.ok === false ? `payload is not a valid link: ${result.error.message}` : null;
+};
+
+/**
+ * Decodes a code from the request path; a malformed escape (e.g. %ZZ)
+ * can't name any stored code, so it decodes to null
+ */
+const decodeCode = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Reads a request body, or resolves null if it is too large for any payload
+ */
+const readBody = (req: IncomingMessage): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    // Room for the payload plus its JSON wrapping
+    const limit = MAX_SHORT_LINK_PAYLOAD + 1024;
+    let body = '';
+    let tooLarge = false;
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      if (!tooLarge) {
+        body += chunk;
+        tooLarge = body.length > limit;
+      }
+    });
+    req.on('end', () => resolve(tooLarge ? null : body));
+    req.on('error', reject);
+  });
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      file: { type: 'string' },
+      'allow-origin': { type: 'string', default: '*' }
+    }
+  });
+
+  const port = Number(values.port || process.env.PORT || DEFAULT_PORT);
+  const file = values.file;
+  const store = createMemoryShortLinkStore(
+    file ? loadRecords(file) : [],
+    file ? records => saveRecords(file, records) : undefined
+  );
+
+  const send = (res: ServerResponse, status: number, body?: unknown) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': values['allow-origin'],
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type'
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (req.method === 'OPTIONS') {
+      return send(res, 204);
+    }
+
+    if (path === '/links' && req.method === 'POST') {
+      const body = await readBody(req);
+      if (body === null) {
+        return send(res, 413, { error: 'body too large' });
+      }
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body).payload;
+      } catch (e) {
+        return send(res, 400, { error: 'body must be JSON like {"payload": "..."}' });
+      }
+      const problem = checkPayload(payload);
+      if (problem) {
+        return send(res, 400, { error: problem });
+      }
+      const code = await store.shorten(payload as string);
+      return send(res, 201, { code });
+    }
+
+    const match = /^\/links\/([^/]+)$/.exec(path);
+    if (match && req.method === 'GET') {
+      const code = decodeCode(match[1]);
+      const record = code === null ? null : await store.resolve(code);
+      return record ? send(res, 200, record) : send(res, 404, { error: 'unknown code' });
+    }
+
+    send(res, 404, { error: 'not found' });
+  };
+
+  createServer((req, res) => {
+    handle(req, res).catch(e => {
+      console.error(e);
+      if (!res.headersSent) {
+        send(res, 500, { error: 'internal error' });
+      }
+    });
+  }).listen(port, () => {
+    console.log(`Short links on http://localhost:${port}${file ? ` (saved to ${file})` : ' (in memory)'}`);
+  });
+};
+
+main();
@@ -0,0 +1,528 @@
+/**
+ * User-Agent Fixtures
+ * Real user agents from browsers and in-app browsers, each with the
+ * EnvironmentInfo detectEnvironment must return for it
+ * (see utils/environment.test.ts)
+ *
+ * When a new app or rule is added to utils/environment.ts, add its user
+ * agents here, one fixture per OS.
+ */
+
+import { BrowserType, EnvironmentInfo, OSType, WebviewEngine } from '../environment';
+
+export interface UserAgentFixture {
+  name: string;
+  userAgent: string;
+  maxTouchPoints?: number; // navigator.maxTouchPoints (default 0)
+  expected: EnvironmentInfo;
+}
+
+export const USER_AGENT_FIXTURES: UserAgentFixture[] = [
+  // Real browsers
+  {
+    name: 'Safari on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.1',
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.WEBKIT
+    }
+  },
+  {
+    name: 'Chrome on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/123.0.6312.52 Mobile/15E148 Safari/604.1',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.4',
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.WEBKIT
+    }
+  },
+  {
+    name: 'Safari on iPad (mobile site)',
+    userAgent: 'Mozilla/5.0 (iPad; CPU OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '16.6',
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.WEBKIT
+    }
+  },
+  {
+    name: 'Safari on iPad in desktop mode (Mac user agent, touch screen)',
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+    maxTouchPoints: 5,
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.4',
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.WEBKIT
+    }
+  },
+  {
+    name: 'Safari on Mac (same user agent, no touch screen)',
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15',
+    maxTouchPoints: 0,
+    expected: {
+      os: OSType.DESKTOP,
+      osVersion: null,
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.WEBKIT
+    }
+  },
+  {
+    name: 'Chrome on Android',
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.6367.82 Mobile Safari/537.36',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '14',
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.CHROMIUM
+    }
+  },
+  {
+    name: 'Samsung Internet on Android',
+    userAgent: 'Mozilla/5.0 (Linux; Android 13; SAMSUNG SM-S911B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/24.0 Chrome/117.0.0.0 Mobile Safari/537.36',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '13',
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.CHROMIUM
+    }
+  },
+  {
+    name: 'Firefox on Android',
+    userAgent: 'Mozilla/5.0 (Android 14; Mobile; rv:125.0) Gecko/125.0 Firefox/125.0',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '14',
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.GECKO
+    }
+  },
+  {
+    name: 'Old Android stock browser (webview engine, no wv marker)',
+    userAgent: 'Mozilla/5.0 (Linux; Android 4.4.2; Nexus 5 Build/KOT49H) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/30.0.0.0 Mobile Safari/537.36',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '4.4.2',
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+  {
+    name: 'Chrome on Windows',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+    expected: {
+      os: OSType.DESKTOP,
+      osVersion: null,
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.CHROMIUM
+    }
+  },
+  {
+    name: 'Edge on Windows',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51',
+    expected: {
+      os: OSType.DESKTOP,
+      osVersion: null,
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.CHROMIUM
+    }
+  },
+  {
+    name: 'Firefox on Mac',
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14.4; rv:125.0) Gecko/20100101 Firefox/125.0',
+    expected: {
+      os: OSType.DESKTOP,
+      osVersion: null,
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.GECKO
+    }
+  },
+  {
+    name: 'Chrome on Linux',
+    userAgent: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+    expected: {
+      os: OSType.DESKTOP,
+      osVersion: null,
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.CHROMIUM
+    }
+  },
+
+  // "Line" inside other words must not look like the Line app
+  {
+    name: 'Desktop Chrome with a "SkyLine/" product token',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 SkyLine/4.2',
+    expected: {
+      os: OSType.DESKTOP,
+      osVersion: null,
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.CHROMIUM
+    }
+  },
+  {
+    name: 'Android Chrome with "Online" and "line/" in the user agent',
+    userAgent: 'Mozilla/5.0 (Linux; Android 13; Pixel 6) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.6367.82 Mobile Safari/537.36 Online line/2.0',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '13',
+      browserType: BrowserType.REAL_BROWSER,
+      isInAppBrowser: false,
+      appName: 'Web',
+      appVersion: null,
+      webviewEngine: WebviewEngine.CHROMIUM
+    }
+  },
+
+  // Meta apps: Messenger, Instagram and Threads before Facebook
+  {
+    name: 'Facebook on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 [FBAN/FBIOS;FBAV/442.0.0.43.111;FBBV/537234539;FBDV/iPhone14,5;FBMD/iPhone;FBSN/iOS;FBSV/17.1.2;FBSS/3;FBID/phone;FBLC/en_US;FBOP/5;FBRV/538829466]',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.1.2',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Facebook',
+      appVersion: '442.0.0.43.111',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Facebook on Android',
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 7 Build/AP1A.240405.002; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/124.0.6367.82 Mobile Safari/537.36 [FB_IAB/FB4A;FBAV/461.0.0.41.108;]',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '14',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Facebook',
+      appVersion: '461.0.0.41.108',
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+  {
+    name: 'Messenger on iPhone (carries FBAN/FBAV like Facebook)',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 [FBAN/MessengerForiOS;FBAV/435.0.0.39.108;FBBV/523422307;FBDV/iPhone13,2;FBMD/iPhone;FBSN/iOS;FBSV/16.6;FBSS/3;FBCR/;FBID/phone;FBLC/en_US;FBOP/5]',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '16.6',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Messenger',
+      appVersion: '435.0.0.39.108',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Messenger on Android (Orca)',
+    userAgent: 'Mozilla/5.0 (Linux; Android 13; SM-A546B Build/TP1A.220624.014; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/122.0.6261.105 Mobile Safari/537.36 [FB_IAB/Orca-Android;FBAV/449.0.0.34.109;]',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '13',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Messenger',
+      appVersion: '449.0.0.34.109',
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+  {
+    name: 'Messenger on Android (newer builds)',
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; SM-S918B Build/UP1A.231005.007; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/124.0.6367.54 Mobile Safari/537.36 [FB_IAB/MESSENGER;FBAV/455.0.0.44.88;]',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '14',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Messenger',
+      appVersion: '455.0.0.44.88',
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+  {
+    name: 'Instagram on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Instagram 312.0.0.32.112 (iPhone15,2; iOS 17_2; en_US; en; scale=3.00; 1179x2556; 548339486)',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.2',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Instagram',
+      appVersion: '312.0.0.32.112',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Instagram on Android',
+    userAgent: 'Mozilla/5.0 (Linux; Android 13; SM-G991B Build/TP1A.220624.014; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.6099.144 Mobile Safari/537.36 Instagram 312.1.0.34.111 Android (33/13; 420dpi; 1080x2220; samsung; SM-G991B; o1s; exynos2100; en_US; 548339501)',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '13',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Instagram',
+      appVersion: '312.1.0.34.111',
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+  {
+    name: 'Threads on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_3 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Barcelona 318.0.0.14.109 (iPhone14,2; iOS 17_3; en_US; en; scale=3.00; 1170x2532; 558209227)',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.3',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Threads',
+      appVersion: '318.0.0.14.109',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Threads on Android',
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 8 Pro Build/AP1A.240305.019.A1; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/122.0.6261.119 Mobile Safari/537.36 Barcelona 321.0.0.39.106 Android (34/14; 480dpi; 1344x2992; Google/google; Pixel 8 Pro; husky; husky; en_US; 565231467)',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '14',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Threads',
+      appVersion: '321.0.0.39.106',
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+
+  // Other in-app browsers
+  {
+    name: 'TikTok on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 musical_ly_32.5.0 JsSdk/2.0 NetType/WIFI Channel/App Store ByteLocale/en Region/US ByteFullLocale/en RevealType/Dialog isDarkMode/0 WKWebView/1 BytedanceWebview/d8a21c6',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.0',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'TikTok',
+      appVersion: '32.5.0',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'TikTok on Android',
+    userAgent: 'Mozilla/5.0 (Linux; Android 12; SM-A525F Build/SP1A.210812.016; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/119.0.6045.193 Mobile Safari/537.36 trill_320104 AppName/trill app_version/32.1.4 ByteLocale/en ByteFullLocale/en Region/GB Spark/1.4.6.3-bugfix AppVersion/32.1.4 BytedanceWebview/d8a21c6',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '12',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'TikTok',
+      appVersion: '32.1.4',
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+  {
+    name: 'Snapchat on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Snapchat/12.68.0.33 (like Safari/8617.1.17.10.9, panda)',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.2.1',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Snapchat',
+      appVersion: '12.68.0.33',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Twitter on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Twitter for iPhone/10.1',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '16.5',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Twitter',
+      appVersion: '10.1',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Twitter on Android (no version)',
+    userAgent: 'Mozilla/5.0 (Linux; Android 13; Pixel 6 Build/TQ3A.230805.001; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/116.0.5845.163 Mobile Safari/537.36 TwitterAndroid',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '13',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Twitter',
+      appVersion: null,
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+  {
+    name: 'LinkedIn on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 [LinkedInApp]/9.29.6590',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.1',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'LinkedIn',
+      appVersion: '9.29.6590',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Reddit on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Reddit/Version 2023.45.0/Build 1234567/iOS Version 17.1',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.1',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Reddit',
+      appVersion: '2023.45.0',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Line on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Safari Line/13.20.0',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.1.1',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Line',
+      appVersion: '13.20.0',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Line on Android',
+    userAgent: 'Mozilla/5.0 (Linux; Android 12; SO-51A Build/58.2.B.0.256; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/118.0.5993.111 Mobile Safari/537.36 Line/13.19.1/IAB',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '12',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Line',
+      appVersion: '13.19.1',
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+  {
+    name: 'WeChat on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_3 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 MicroMessenger/8.0.34(0x18002234) NetType/WIFI Language/zh_CN',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '16.3',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'WeChat',
+      appVersion: '8.0.34',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'KakaoTalk on Android',
+    userAgent: 'Mozilla/5.0 (Linux; Android 13; SM-S908N Build/TP1A.220624.014; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.6099.210 Mobile Safari/537.36;KAKAOTALK 2410310',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '13',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'KakaoTalk',
+      appVersion: '2410310',
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+
+  // Google app (GSA)
+  {
+    name: 'Google app on iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) GSA/309.0.618877580 Mobile/15E148 Safari/604.1',
+    expected: {
+      os: OSType.IOS,
+      osVersion: '17.4.1',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Google',
+      appVersion: '309.0.618877580',
+      webviewEngine: WebviewEngine.WKWEBVIEW
+    }
+  },
+  {
+    name: 'Google app on Android',
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 7 Build/AP1A.240405.002; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/124.0.6367.82 Mobile Safari/537.36 GSA/15.16.34.29.arm64',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '14',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'Google',
+      appVersion: '15.16.34.29',
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  },
+
+  // Unknown apps embedding the Android System WebView
+  {
+    name: 'Unknown app with Android WebView (wv)',
+    userAgent: 'Mozilla/5.0 (Linux; Android 11; moto g(30) Build/RRMS31.Q1-14-21; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/120.0.6099.43 Mobile Safari/537.36',
+    expected: {
+      os: OSType.ANDROID,
+      osVersion: '11',
+      browserType: BrowserType.IN_APP,
+      isInAppBrowser: true,
+      appName: 'WebView',
+      appVersion: null,
+      webviewEngine: WebviewEngine.ANDROID_WEBVIEW
+    }
+  }
+];
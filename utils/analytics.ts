@@ -0,0 +1,144 @@
+/**
+ * Visitor Analytics
+ * Typed events from the Viewer flow (decoding, browser bridge, breakout,
+ * bio page clicks), each stamped with the visitor's EnvironmentInfo and
+ * handed to a pluggable sink.
+ *
+ * Nothing is sent by default (config.analytics.sink is 'none'). Events
+ * never carry destination URLs or payload content, and are dropped when
+ * the visitor asks not to be tracked or hasn't given consent (if required).
+ */
+
+import { config } from './config';
+import type { EnvironmentInfo } from './environment';
+import type { LinkPayload } from './payload';
+import type { PayloadErrorKind } from './validation';
+import type { BreakoutMethod } from './breakout';
+
+export type AnalyticsEvent =
+  | { type: 'payload_decoded'; mode: LinkPayload['mode']; encrypted: boolean; shortLink: boolean }
+  | { type: 'decode_error'; kind: PayloadErrorKind }
+  | { type: 'bridge_shown' }
+  | { type: 'bridge_confirmed' }
+  | { type: 'breakout_used'; strategy: string; method: BreakoutMethod | null; left: boolean }
+  | { type: 'link_clicked'; index: number }; // Position among the bio page's links (0-based)
+
+export type AnalyticsEventType = AnalyticsEvent['type'];
+
+export type AnalyticsRecord = AnalyticsEvent & {
+  env: EnvironmentInfo;
+  timestamp: number; // Epoch ms
+};
+
+export type AnalyticsSink = (record: AnalyticsRecord) => void;
+
+export type AnalyticsSinkType = 'none' | 'console' | 'beacon';
+
+const CONSENT_STORAGE_KEY = 'paralink.analyticsConsent';
+
+/**
+ * Sink that drops every event
+ */
+export const noopSink: AnalyticsSink = () => {};
+
+/**
+ * Sink that logs events to the browser console (for development)
+ */
+export const consoleSink: AnalyticsSink = (record) => {
+  console.info('[Analytics]', record.type, record);
+};
+
+/**
+ * Sink that posts each event as JSON to a collector
+ * Uses navigator.sendBeacon so events survive the page navigating away
+ * (the usual case right after a click); falls back to a keepalive fetch.
+ */
+export const createBeaconSink = (endpoint: string): AnalyticsSink => (record) => {
+  const body = JSON.stringify(record);
+  if (typeof navigator !== 'undefined' && navigator.sendBeacon && navigator.sendBeacon(endpoint, body)) {
+    return;
+  }
+  // text/plain keeps it a simple request, like the beacon (no CORS preflight)
+  fetch(endpoint, { method: 'POST', body, keepalive: true, headers: { 'Content-Type': 'text/plain' } })
+    .catch(() => {});
+};
+
+/**
+ * Builds the sink named in the config
+ */
+const createConfiguredSink = (): AnalyticsSink => {
+  const { sink, endpoint } = config.analytics;
+  if (sink === 'console') return consoleSink;
+  if (sink === 'beacon' && endpoint) return createBeaconSink(endpoint);
+  return noopSink;
+};
+
+let activeSink: AnalyticsSink | null = null;
+
+/**
+ * Replaces the configured sink at runtime (e.g. with one for a hosted
+ * analytics service); null goes back to the configured one
+ */
+export const setAnalyticsSink = (sink: AnalyticsSink | null): void => {
+  activeSink = sink;
+};
+
+/**
+ * Records the visitor's answer to a consent prompt
+ */
+export const setAnalyticsConsent = (granted: boolean): void => {
+  try {
+    localStorage.setItem(CONSENT_STORAGE_KEY, granted ? 'granted' : 'denied');
+  } catch (e) {
+    // Storage blocked: nothing is remembered, so nothing is sent
+  }
+};
+
+/**
+ * Gets the visitor's consent answer, or null if they haven't answered
+ */
+export const getAnalyticsConsent = (): boolean | null => {
+  try {
+    const stored = localStorage.getItem(CONSENT_STORAGE_KEY);
+    return stored ? stored === 'granted' : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Checks the browser's Do Not Track and Global Privacy Control signals
+ */
+export const isDoNotTrackEnabled = (): boolean => {
+  if (typeof navigator === 'undefined') return false;
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  return nav.doNotTrack === '1' || nav.globalPrivacyControl === true;
+};
+
+/**
+ * Checks whether events may be sent for this visitor
+ */
+export const isTrackingAllowed = (): boolean => {
+  const { respectDoNotTrack, requireConsent } = config.analytics;
+  if (respectDoNotTrack && isDoNotTrackEnabled()) return false;
+  if (requireConsent && getAnalyticsConsent() !== true) return false;
+  return true;
+};
+
+/**
+ * Sends an event to the active sink
+ * Analytics must never break the visitor's flow, so sink errors are swallowed.
+ */
+export const trackEvent = (event: AnalyticsEvent, env: EnvironmentInfo): void => {
+  if (!isTrackingAllowed()) {
+    return;
+  }
+  const sink = activeSink || createConfiguredSink();
+  try {
+    sink({ ...event, env, timestamp: Date.now() });
+  } catch (e) {
+    if (import.meta.env?.DEV) {
+      console.warn('[Analytics] Sink failed:', e);
+    }
+  }
+};
@@ -0,0 +1,30 @@
+/**
+ * Base64url Utilities
+ * URL-safe base64 (RFC 4648 §5) for binary data embedded in links
+ */
+
+/**
+ * Converts bytes to an unpadded URL-safe base64 string
+ */
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Converts a URL-safe (or standard) base64 string back to bytes
+ */
+export const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
@@ -0,0 +1,54 @@
+/**
+ * Bio Page Block Utilities
+ * Block-based bio page content (avatar, text, headers, socials, links)
+ *
+ * Older bio payloads only carry `links`; they read as a page of plain link
+ * blocks. When a payload has `blocks`, those are rendered instead.
+ */
+
+import type { LinkItem, LinkPayload } from './payload';
+
+export interface LinkBlock extends LinkItem {
+  type: 'link';
+  featured?: boolean; // Highlighted, larger button
+}
+
+export type BioBlock =
+  | { type: 'avatar'; url: string } // Profile image above the profile name (one per page)
+  | { type: 'text'; text: string } // Short description
+  | { type: 'header'; text: string } // Section header
+  | { type: 'divider' }
+  | { type: 'social'; urls: string[] } // Icon row, platform detected from each URL
+  | LinkBlock;
+
+export const BIO_BLOCK_TYPES: BioBlock['type'][] = ['avatar', 'text', 'header', 'divider', 'social', 'link'];
+
+// Longest description, so bio pages (and links) stay short
+export const MAX_BIO_TEXT_LENGTH = 280;
+
+/**
+ * Gets the blocks of a bio payload, converting legacy `links` to link blocks
+ */
+export const getBioBlocks = (payload: LinkPayload): BioBlock[] => {
+  if (payload.blocks && payload.blocks.length > 0) {
+    return payload.blocks;
+  }
+  return (payload.links || []).map(link => ({ type: 'link' as const, ...link }));
+};
+
+/**
+ * Stores blocks in the most compatible form: plain `links` when the page is
+ * only ordinary links (readable by older viewers), `blocks` otherwise
+ */
+export const toBioContent = (blocks: BioBlock[]): { links: LinkItem[] } | { blocks: BioBlock[] } => {
+  const onlyPlainLinks = blocks.every(b => b.type === 'link' && !b.featured);
+  if (!onlyPlainLinks) {
+    return { blocks };
+  }
+  return {
+    links: blocks.map(b => {
+      const { type, featured, ...link } = b as LinkBlock;
+      return link;
+    })
+  };
+};
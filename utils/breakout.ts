@@ -0,0 +1,228 @@
+/**
+ * Breakout Strategy Utilities
+ * Registry of per-platform, per-app ways to leave an in-app browser
+ *
+ * A strategy is an ordered list of attempts. Each attempt navigates one way
+ * (intent, URL scheme, anchor...) and then waits its timeout; if the page is
+ * still visible, the next attempt runs. Strategies from config are checked
+ * before the built-in ones, so one app's webview can be fixed in isolation.
+ */
+
+import { config } from './config';
+import { EnvironmentInfo, OSType } from './environment';
+import { buildAndroidIntent, BROWSER_PACKAGES } from './intent';
+
+export type BreakoutMethod =
+  | 'chrome-intent' // Android intent targeting Chrome
+  | 'default-browser-intent' // Android intent without a package (default browser)
+  | 'package-intent' // Android intent targeting the attempt's packageName
+  | 'x-safari' // iOS 17+ x-safari-https:// scheme (always Safari, not the default browser)
+  | 'anchor' // Hidden target=_blank anchor click
+  | 'window-open' // window.open in a new tab
+  | 'location'; // Plain same-tab navigation
+
+export interface BreakoutAttempt {
+  method: BreakoutMethod;
+  timeout: number; // ms to wait for the page to hide before the next attempt
+  packageName?: string; // For 'package-intent', e.g. BROWSER_PACKAGES.samsungInternet
+  targetUrl?: string; // Navigate here instead of the destination (e.g. an app deep link)
+}
+
+export interface BreakoutStrategy {
+  id: string;
+  // Match criteria (omitted = any)
+  os?: OSType;
+  inApp?: boolean;
+  appName?: string;
+  minAppVersion?: string; // Inclusive
+  maxAppVersion?: string; // Exclusive
+  minOsVersion?: string; // Inclusive
+  attempts: BreakoutAttempt[];
+}
+
+export interface BreakoutResult {
+  strategy: string; // Strategy id
+  method: BreakoutMethod | null; // Last attempt made
+  left: boolean; // Whether the page was hidden (breakout likely worked)
+}
+
+/**
+ * Built-in strategies, most specific first
+ */
+const DEFAULT_STRATEGIES: BreakoutStrategy[] = [
+  {
+    // Anchor lets Instagram's native "You're leaving our app" dialog appear
+    // naturally and reliably reaches SafariViewController
+    id: 'ios-instagram',
+    os: OSType.IOS,
+    appName: 'Instagram',
+    attempts: [{ method: 'anchor', timeout: 0 }]
+  },
+  {
+    // A single anchor click keeps the user gesture and the visitor's default
+    // browser; x-safari is opt-in through config.breakout.strategies
+    id: 'ios-in-app',
+    os: OSType.IOS,
+    inApp: true,
+    attempts: [{ method: 'anchor', timeout: 0 }]
+  },
+  {
+    id: 'android-in-app',
+    os: OSType.ANDROID,
+    inApp: true,
+    attempts: [
+      { method: 'chrome-intent', timeout: 2500 },
+      { method: 'window-open', timeout: 0 }
+    ]
+  },
+  {
+    // Real browsers (and desktop): standard open
+    id: 'default',
+    attempts: [{ method: 'window-open', timeout: 0 }]
+  }
+];
+
+// Strategies added at runtime, checked after config and before the defaults
+const registeredStrategies: BreakoutStrategy[] = [];
+
+/**
+ * Compares dotted version strings numerically ('10.2' > '9.10')
+ * Returns a negative number, zero, or a positive number
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const pa = a.split(/[._]/).map(n => parseInt(n, 10) || 0);
+  const pb = b.split(/[._]/).map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Checks if a strategy applies to an environment
+ */
+const matchesStrategy = (strategy: BreakoutStrategy, env: EnvironmentInfo): boolean => {
+  if (strategy.os && strategy.os !== env.os) return false;
+  if (strategy.inApp !== undefined && strategy.inApp !== env.isInAppBrowser) return false;
+  if (strategy.appName && strategy.appName.toLowerCase() !== env.appName.toLowerCase()) return false;
+  if (strategy.minAppVersion && (!env.appVersion || compareVersions(env.appVersion, strategy.minAppVersion) < 0)) return false;
+  if (strategy.maxAppVersion && (!env.appVersion || compareVersions(env.appVersion, strategy.maxAppVersion) >= 0)) return false;
+  if (strategy.minOsVersion && (!env.osVersion || compareVersions(env.osVersion, strategy.minOsVersion) < 0)) return false;
+  return true;
+};
+
+/**
+ * Registers a strategy at runtime (checked before the built-in ones)
+ */
+export const registerBreakoutStrategy = (strategy: BreakoutStrategy): void => {
+  registeredStrategies.unshift(strategy);
+};
+
+/**
+ * Finds the strategy for an environment
+ * Order: config overrides → registered strategies → built-in defaults
+ */
+export const resolveBreakoutStrategy = (env: EnvironmentInfo): BreakoutStrategy => {
+  const candidates = [...config.breakout.strategies, ...registeredStrategies, ...DEFAULT_STRATEGIES];
+  return candidates.find(s => matchesStrategy(s, env)) || DEFAULT_STRATEGIES[DEFAULT_STRATEGIES.length - 1];
+};
+
+/**
+ * Clicks a temporary hidden anchor (must run in a user gesture context)
+ */
+const clickAnchor = (url: string): void => {
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.target = '_blank';
+  anchor.rel = 'noopener noreferrer';
+  anchor.style.display = 'none';
+
+  // Append to body temporarily
+  document.body.appendChild(anchor);
+  anchor.click();
+
+  // Clean up after a short delay
+  setTimeout(() => {
+    document.body.removeChild(anchor);
+  }, 100);
+};
+
+/**
+ * Navigation performed by each method
+ */
+const BREAKOUT_METHODS: Record<BreakoutMethod, (url: string, attempt: BreakoutAttempt) => void> = {
+  'chrome-intent': (url) => {
+    window.location.href = buildAndroidIntent(url, { packageName: BROWSER_PACKAGES.chrome });
+  },
+  'default-browser-intent': (url) => {
+    window.location.href = buildAndroidIntent(url, { category: 'android.intent.category.BROWSABLE' });
+  },
+  'package-intent': (url, attempt) => {
+    // No fallback: if the package is missing, let the next attempt run
+    // instead of Chrome loading the page inside the webview
+    window.location.href = buildAndroidIntent(url, { packageName: attempt.packageName, fallbackUrl: null });
+  },
+  'x-safari': (url) => {
+    window.location.href = `x-safari-${url}`;
+  },
+  'anchor': clickAnchor,
+  'window-open': (url) => {
+    window.open(url, '_blank', 'noopener,noreferrer');
+  },
+  'location': (url) => {
+    window.location.href = url;
+  }
+};
+
+/**
+ * Waits for the page to be hidden (the app or browser took over)
+ * Listens for visibilitychange and pagehide; resolves false after the timeout
+ * if the visitor is still looking at this page
+ */
+export const waitForPageExit = (timeout: number): Promise<boolean> => {
+  if (document.visibilityState === 'hidden') {
+    return Promise.resolve(true);
+  }
+
+  return new Promise(resolve => {
+    const finish = (left: boolean) => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', onPageHide);
+      resolve(left);
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        finish(true);
+      }
+    };
+    const onPageHide = () => finish(true);
+    const timer = setTimeout(() => finish(document.visibilityState === 'hidden'), timeout);
+
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', onPageHide);
+  });
+};
+
+/**
+ * Runs a strategy's attempts in order until the page is hidden
+ * The first attempt runs synchronously so it keeps the user gesture; later
+ * attempts run after a timeout, where webviews may refuse new windows
+ */
+export const runBreakoutStrategy = async (url: string, strategy: BreakoutStrategy): Promise<BreakoutResult> => {
+  let method: BreakoutMethod | null = null;
+
+  for (const attempt of strategy.attempts) {
+    method = attempt.method;
+    BREAKOUT_METHODS[attempt.method](attempt.targetUrl || url, attempt);
+
+    if (await waitForPageExit(attempt.timeout)) {
+      return { strategy: strategy.id, method, left: true };
+    }
+  }
+
+  return { strategy: strategy.id, method, left: false };
+};
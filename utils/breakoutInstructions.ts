@@ -0,0 +1,112 @@
+/**
+ * Manual Breakout Instructions
+ * Step-by-step "open in browser" directions for when automatic breakout fails
+ * Keyed by in-app browser; the menu layout differs per app and per OS
+ */
+
+import { EnvironmentInfo, OSType } from './environment';
+
+export type InstructionIcon =
+  | 'dots-horizontal' // ••• menu
+  | 'dots-vertical' // ⋮ menu
+  | 'share' // Share sheet
+  | 'browser'; // "Open in browser" entry
+
+export interface InstructionStep {
+  icon: InstructionIcon;
+  text: string;
+}
+
+interface AppInstructions {
+  menu: Partial<Record<OSType, InstructionStep>>; // How to open the menu
+  action: string; // Label of the menu entry, {browser} is replaced
+}
+
+/**
+ * Gets the name of the browser the visitor will land in
+ */
+const getBrowserName = (os: OSType): string => {
+  if (os === OSType.IOS) return 'Safari';
+  if (os === OSType.ANDROID) return 'Chrome';
+  return 'your browser';
+};
+
+const DOTS_TOP_RIGHT_IOS: InstructionStep = { icon: 'dots-horizontal', text: 'Tap ••• in the top right corner' };
+const DOTS_TOP_RIGHT_ANDROID: InstructionStep = { icon: 'dots-vertical', text: 'Tap ⋮ in the top right corner' };
+
+const APP_INSTRUCTIONS: Record<string, AppInstructions> = {
+  Instagram: {
+    menu: { [OSType.IOS]: DOTS_TOP_RIGHT_IOS, [OSType.ANDROID]: DOTS_TOP_RIGHT_ANDROID },
+    action: 'Open in external browser'
+  },
+  Threads: {
+    menu: { [OSType.IOS]: DOTS_TOP_RIGHT_IOS, [OSType.ANDROID]: DOTS_TOP_RIGHT_ANDROID },
+    action: 'Open in browser'
+  },
+  Facebook: {
+    menu: {
+      [OSType.IOS]: { icon: 'dots-horizontal', text: 'Tap ••• in the bottom right corner' },
+      [OSType.ANDROID]: DOTS_TOP_RIGHT_ANDROID
+    },
+    action: 'Open in {browser}'
+  },
+  Messenger: {
+    menu: {
+      [OSType.IOS]: { icon: 'dots-horizontal', text: 'Tap ••• in the bottom right corner' },
+      [OSType.ANDROID]: DOTS_TOP_RIGHT_ANDROID
+    },
+    action: 'Open in {browser}'
+  },
+  TikTok: {
+    menu: {
+      [OSType.IOS]: DOTS_TOP_RIGHT_IOS,
+      [OSType.ANDROID]: { icon: 'dots-horizontal', text: 'Tap ••• in the top right corner' }
+    },
+    action: 'Open in browser'
+  },
+  Snapchat: {
+    menu: {
+      [OSType.IOS]: { icon: 'dots-vertical', text: 'Tap ⋮ in the top right corner' },
+      [OSType.ANDROID]: DOTS_TOP_RIGHT_ANDROID
+    },
+    action: 'Open in {browser}'
+  },
+  Twitter: {
+    menu: { [OSType.IOS]: { icon: 'share', text: 'Tap the share button' }, [OSType.ANDROID]: DOTS_TOP_RIGHT_ANDROID },
+    action: 'Open in {browser}'
+  },
+  LinkedIn: {
+    menu: { [OSType.IOS]: DOTS_TOP_RIGHT_IOS, [OSType.ANDROID]: DOTS_TOP_RIGHT_ANDROID },
+    action: 'Open in browser'
+  },
+  Telegram: {
+    menu: { [OSType.IOS]: DOTS_TOP_RIGHT_IOS, [OSType.ANDROID]: DOTS_TOP_RIGHT_ANDROID },
+    action: 'Open in {browser}'
+  },
+  Line: {
+    menu: { [OSType.IOS]: { icon: 'share', text: 'Tap the share button' }, [OSType.ANDROID]: DOTS_TOP_RIGHT_ANDROID },
+    action: 'Open in default browser'
+  }
+};
+
+const GENERIC_INSTRUCTIONS: AppInstructions = {
+  menu: {
+    [OSType.IOS]: { icon: 'dots-horizontal', text: 'Tap the menu button (••• or the share button)' },
+    [OSType.ANDROID]: { icon: 'dots-vertical', text: 'Tap the menu button (⋮ or •••)' }
+  },
+  action: 'Open in browser'
+};
+
+/**
+ * Gets the manual steps for opening this page in the system browser
+ */
+export const getBreakoutInstructions = (env: EnvironmentInfo): InstructionStep[] => {
+  const browser = getBrowserName(env.os);
+  const instructions = APP_INSTRUCTIONS[env.appName] || GENERIC_INSTRUCTIONS;
+  const menuStep = instructions.menu[env.os] || GENERIC_INSTRUCTIONS.menu[OSType.ANDROID]!;
+
+  return [
+    menuStep,
+    { icon: 'browser', text: `Choose "${instructions.action.replace('{browser}', browser)}"` }
+  ];
+};
@@ -0,0 +1,138 @@
+/**
+ * App Configuration
+ * Deployment-specific settings baked into the build
+ * Edit these values per deployment; every module reads them from here
+ */
+
+import type { BreakoutStrategy } from './breakout';
+import type { AnalyticsSinkType } from './analytics';
+import type { LinkRouteStyle } from './linkRoutes';
+
+export interface SafetyConfig {
+  // URL schemes visitors may be sent to (without the trailing ':')
+  allowedSchemes: string[];
+  // If non-empty, only these domains (and their subdomains) are allowed
+  allowedDomains: string[];
+  // Domains (and their subdomains) that are always refused
+  blockedDomains: string[];
+  // Show a warning before sending visitors to raw IP addresses
+  warnOnIpHosts: boolean;
+  // Show a warning for punycode and lookalike hosts
+  warnOnLookalikes: boolean;
+  // Well-known domains used to spot lookalikes (e.g. paypa1.com), official
+  // short/alias domains included so they aren't taken for lookalikes
+  protectedDomains: string[];
+}
+
+export interface TrustedSigningKey {
+  kid: string; // Key id shown in the Dashboard
+  publicKey: string; // base64url SPKI public key exported from the Dashboard
+  label?: string; // Shown on verified pages, e.g. the creator's name
+}
+
+export interface SigningConfig {
+  // Creator keys whose signed links show a "verified" badge
+  trustedKeys: TrustedSigningKey[];
+}
+
+export interface BreakoutConfig {
+  // Checked before the built-in strategies; first match wins.
+  // e.g. { id: 'tiktok-android-fix', os: OSType.ANDROID, appName: 'TikTok',
+  //        attempts: [{ method: 'default-browser-intent', timeout: 2000 }] }
+  // or try browsers in turn:
+  //        attempts: [{ method: 'package-intent', packageName: BROWSER_PACKAGES.samsungInternet, timeout: 1500 },
+  //                   { method: 'chrome-intent', timeout: 2500 }]
+  // or force Safari on iOS 17+ (skips the visitor's default browser; an
+  // attempt after it runs without the tap's user activation):
+  //        { id: 'ios-safari', os: OSType.IOS, inApp: true, minOsVersion: '17',
+  //          attempts: [{ method: 'x-safari', timeout: 0 }] }
+  strategies: BreakoutStrategy[];
+}
+
+export interface RoutingConfig {
+  // Style of new links: 'path' (/go/<payload>, needs the host to serve
+  // index.html for every path) or 'hash' (/#/go?p=<payload>, any static host)
+  style: LinkRouteStyle;
+}
+
+export interface ShortLinksConfig {
+  // Base URL of the short-link service (e.g. 'http://localhost:8787' for
+  // `npm run short-links`); empty turns short links off
+  endpoint: string;
+}
+
+export interface AnalyticsConfig {
+  // Where visitor events go: 'none', 'console' (development) or 'beacon' (POST to endpoint)
+  sink: AnalyticsSinkType;
+  // Collector URL for the beacon sink (e.g. 'http://localhost:8788/events'
+  // for `npm run analytics-collector`)
+  endpoint: string;
+  // Send nothing when the browser asks not to be tracked (Do Not Track / GPC)
+  respectDoNotTrack: boolean;
+  // Send nothing until the visitor opts in via setAnalyticsConsent(true)
+  requireConsent: boolean;
+}
+
+export interface ParaLinkConfig {
+  safety: SafetyConfig;
+  signing: SigningConfig;
+  breakout: BreakoutConfig;
+  routing: RoutingConfig;
+  shortLinks: ShortLinksConfig;
+  analytics: AnalyticsConfig;
+}
+
+export const config: ParaLinkConfig = {
+  safety: {
+    allowedSchemes: ['https', 'http'],
+    allowedDomains: [],
+    blockedDomains: [],
+    warnOnIpHosts: true,
+    warnOnLookalikes: true,
+    protectedDomains: [
+      'apple.com',
+      'apple.co',
+      'amazon.com',
+      'amzn.to',
+      'a.co',
+      'facebook.com',
+      'fb.com',
+      'fb.me',
+      'google.com',
+      'goo.gl',
+      'instagram.com',
+      'instagr.am',
+      'microsoft.com',
+      'aka.ms',
+      'netflix.com',
+      'onlyfans.com',
+      'paypal.com',
+      'paypal.me',
+      'snapchat.com',
+      'tiktok.com',
+      'twitter.com',
+      't.co',
+      'x.com',
+      'youtube.com',
+      'youtu.be'
+    ]
+  },
+  signing: {
+    trustedKeys: []
+  },
+  breakout: {
+    strategies: []
+  },
+  routing: {
+    style: 'path'
+  },
+  shortLinks: {
+    endpoint: ''
+  },
+  analytics: {
+    sink: 'none',
+    endpoint: '',
+    respectDoNotTrack: true,
+    requireConsent: false
+  }
+};
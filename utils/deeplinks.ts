@@ -0,0 +1,166 @@
+/**
+ * Deep Link Utilities
+ * Maps well-known web URLs to their native app equivalents:
+ * - iOS: custom URL schemes (the web URL is the fallback after a timeout)
+ * - Android: intents targeting the app's package, with browser_fallback_url
+ */
+
+import { OSType } from './environment';
+import { buildAndroidIntent } from './intent';
+
+export interface DeepLinkTarget {
+  app: string; // e.g. 'YouTube'
+  webUrl: string;
+  iosUrl: string | null; // null when the app has no usable scheme for this URL
+  androidUrl: string | null; // intent: URI
+}
+
+interface DeepLinkRule {
+  app: string;
+  hosts: string[]; // Matches the host and its subdomains
+  androidPackage?: string;
+  // Builds the iOS URL from the parsed web URL; null if unsupported
+  ios?: (url: URL) => string | null;
+}
+
+// Time to wait for the app to take over before falling back to the web URL
+export const DEEP_LINK_TIMEOUT_MS = 1500;
+
+const pathParts = (url: URL): string[] => url.pathname.split('/').filter(Boolean);
+
+const DEEP_LINK_RULES: DeepLinkRule[] = [
+  {
+    app: 'YouTube',
+    hosts: ['youtube.com', 'youtu.be'],
+    androidPackage: 'com.google.android.youtube',
+    ios: (url) => {
+      if (url.hostname.endsWith('youtu.be')) {
+        const id = pathParts(url)[0];
+        return id ? `youtube://www.youtube.com/watch?v=${encodeURIComponent(id)}` : null;
+      }
+      return `youtube://www.youtube.com${url.pathname}${url.search}`;
+    }
+  },
+  {
+    app: 'Spotify',
+    hosts: ['open.spotify.com'],
+    androidPackage: 'com.spotify.music',
+    ios: (url) => {
+      // open.spotify.com/track/<id> → spotify:track:<id> (locale prefixes like /intl-de/ dropped)
+      const parts = pathParts(url).filter(p => !p.startsWith('intl-'));
+      return parts.length >= 2 ? `spotify:${parts.slice(0, 2).join(':')}` : null;
+    }
+  },
+  {
+    app: 'Instagram',
+    hosts: ['instagram.com'],
+    androidPackage: 'com.instagram.android',
+    ios: (url) => {
+      const parts = pathParts(url);
+      // Profiles only; posts need a numeric media id the URL doesn't carry
+      if (parts.length === 1 && !['p', 'reel', 'explore', 'stories'].includes(parts[0])) {
+        return `instagram://user?username=${encodeURIComponent(parts[0])}`;
+      }
+      return null;
+    }
+  },
+  {
+    app: 'TikTok',
+    hosts: ['tiktok.com'],
+    androidPackage: 'com.zhiliaoapp.musically',
+    ios: (url) => {
+      const parts = pathParts(url);
+      // tiktok.com/@user/video/<id>
+      if (parts.length >= 3 && parts[1] === 'video') {
+        return `snssdk1233://aweme/detail/${encodeURIComponent(parts[2])}`;
+      }
+      return null;
+    }
+  },
+  {
+    app: 'X',
+    hosts: ['x.com', 'twitter.com'],
+    androidPackage: 'com.twitter.android',
+    ios: (url) => {
+      const parts = pathParts(url);
+      if (parts.length >= 3 && parts[1] === 'status') {
+        return `twitter://status?id=${encodeURIComponent(parts[2])}`;
+      }
+      if (parts.length === 1) {
+        return `twitter://user?screen_name=${encodeURIComponent(parts[0])}`;
+      }
+      return null;
+    }
+  },
+  {
+    app: 'App Store',
+    hosts: ['apps.apple.com', 'itunes.apple.com'],
+    ios: (url) => `itms-apps://${url.hostname}${url.pathname}${url.search}`
+  },
+  {
+    app: 'Google Play',
+    hosts: ['play.google.com'],
+    androidPackage: 'com.android.vending'
+  }
+];
+
+/**
+ * Checks if a host is one of the domains or their subdomains
+ */
+const matchesHost = (host: string, domains: string[]): boolean =>
+  domains.some(d => host === d || host.endsWith(`.${d}`));
+
+/**
+ * Resolves a web URL to its native app deep links
+ * Returns null if the URL doesn't belong to a known app
+ */
+export const resolveDeepLink = (webUrl: string): DeepLinkTarget | null => {
+  let url: URL;
+  try {
+    url = new URL(webUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+  const rule = DEEP_LINK_RULES.find(r => matchesHost(host, r.hosts));
+  if (!rule) {
+    return null;
+  }
+
+  return {
+    app: rule.app,
+    webUrl,
+    iosUrl: rule.ios ? rule.ios(url) : null,
+    androidUrl: rule.androidPackage
+      ? buildAndroidIntent(webUrl, { packageName: rule.androidPackage })
+      : null
+  };
+};
+
+/**
+ * Gets the app URL to try on a given OS, or null to go straight to the web
+ */
+export const getAppUrl = (webUrl: string, os: OSType): string | null => {
+  const target = resolveDeepLink(webUrl);
+  if (!target) {
+    return null;
+  }
+  if (os === OSType.IOS) return target.iosUrl;
+  if (os === OSType.ANDROID) return target.androidUrl;
+  return null;
+};
+
+/**
+ * Gets the name of the app a destination can open in, if any
+ * Accepts URLs typed without a scheme (https is assumed)
+ */
+export const getDeepLinkApp = (url: string): string | null => {
+  const u = url.trim();
+  if (!u) return null;
+  const target = resolveDeepLink(/^https?:\/\//i.test(u) ? u : 'https://' + u);
+  return target ? target.app : null;
+};
@@ -0,0 +1,93 @@
+/**
+ * Payload Encryption Utilities
+ * Passphrase-protected links: AES-GCM via WebCrypto, key derived with PBKDF2
+ *
+ * Encrypted format: `x1.<salt>.<iv>.<ciphertext>` (all base64url)
+ * The ciphertext wraps the regular encoded payload, so decrypting yields
+ * a string for parsePayload. The passphrase is either typed by the visitor
+ * or carried in the link's fragment (`#k=`, see utils/linkRoutes.ts).
+ */
+
+import { fromBase64Url, toBase64Url } from './base64url';
+
+const ENCRYPTED_PREFIX = 'x1.';
+const PBKDF2_ITERATIONS = 150000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Checks if an encoded payload string is encrypted
+ */
+export const isEncryptedPayload = (encoded: string | null | undefined): boolean => {
+  if (!encoded) {
+    return false;
+  }
+  try {
+    return decodeURIComponent(encoded).trim().startsWith(ENCRYPTED_PREFIX);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Derives an AES-GCM key from a passphrase and salt
+ */
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Generates a random passphrase for links that carry their own key
+ */
+export const generatePassphrase = (): string => {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+};
+
+/**
+ * Encrypts an encoded payload string (see encodePayload) with a passphrase
+ * Returns the encrypted string used as the `p` parameter
+ */
+export const encryptPayload = async (encoded: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt);
+  const plaintext = new TextEncoder().encode(encoded);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+  return `${ENCRYPTED_PREFIX}${toBase64Url(salt)}.${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+};
+
+/**
+ * Decrypts an encrypted payload string with a passphrase
+ * Returns the inner encoded payload for parsePayload, or null if the passphrase is wrong
+ * Throws if the encrypted string itself is malformed
+ */
+export const decryptPayload = async (encrypted: string, passphrase: string): Promise<string | null> => {
+  const parts = decodeURIComponent(encrypted).trim().slice(ENCRYPTED_PREFIX.length).split('.');
+  if (parts.length !== 3) {
+    throw new Error('Encrypted payload is incomplete');
+  }
+  const [salt, iv, ciphertext] = parts.map(fromBase64Url);
+
+  try {
+    const key = await deriveKey(passphrase, salt);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+    return new TextDecoder().decode(plaintext);
+  } catch (e) {
+    // AES-GCM authentication failed: wrong passphrase (or a damaged link)
+    return null;
+  }
+};
@@ -0,0 +1,9 @@
+import { describe, expect, it } from 'vitest';
+import { detectEnvironment } from './environment';
+import { USER_AGENT_FIXTURES } from './__fixtures__/userAgents';
+
+describe('detectEnvironment', () => {
+  it.each(USER_AGENT_FIXTURES)('$name', ({ userAgent, maxTouchPoints, expected }) => {
+    expect(detectEnvironment(userAgent, maxTouchPoints || 0)).toEqual(expected);
+  });
+});
@@ -16,44 +16,172 @@ export enum BrowserType {
   IN_APP = 'IN_APP' // TikTok, Instagram, etc.
 }
 
+export enum WebviewEngine {
+  WKWEBVIEW = 'WKWEBVIEW', // iOS in-app browsers
+  ANDROID_WEBVIEW = 'ANDROID_WEBVIEW', // Android System WebView (in-app browsers)
+  WEBKIT = 'WEBKIT', // Safari (and every other iOS browser)
+  CHROMIUM = 'CHROMIUM', // Chrome, Edge, Samsung Internet, etc.
+  GECKO = 'GECKO', // Firefox
+  UNKNOWN = 'UNKNOWN'
+}
+
 export interface EnvironmentInfo {
   os: OSType;
+  osVersion: string | null; // e.g. '17.1' or '14'
   browserType: BrowserType;
   isInAppBrowser: boolean;
   appName: string; // e.g., 'TikTok', 'Instagram', or 'Web'
+  appVersion: string | null; // In-app browser host app version, e.g. '309.0.0.23.114'
+  webviewEngine: WebviewEngine;
 }
 
-// Regex to detect in-app browsers from user agent
-const IN_APP_REGEX = /(TikTok|Instagram|Twitter|Snapchat|Reddit|Telegram|Facebook|FBAV|FBAN|Line|WhatsApp|LinkedIn|Twitch|musical_ly)/i;
+interface InAppRule {
+  appName: string;
+  match: RegExp; // Identifies the app from the user agent
+  version?: RegExp; // First capture group is the app version
+}
 
 /**
- * Detects the current environment (OS, browser type, in-app status)
+ * In-app browser rules, checked in order: the first matching rule wins.
+ * More specific apps come before the apps they embed tokens from
+ * (Messenger, Instagram and Threads all carry Facebook tokens on some builds).
+ */
+const IN_APP_RULES: InAppRule[] = [
+  {
+    appName: 'Messenger',
+    match: /\bFBAN\/(?:MessengerForiOS|MessengerLiteForiOS)|\bFB_IAB\/(?:Orca-Android|MESSENGER)|\bMessengerLite/,
+    version: /\bFBAV\/([\d.]+)/
+  },
+  { appName: 'Instagram', match: /\bInstagram [\d.]+/, version: /\bInstagram ([\d.]+)/ },
+  { appName: 'Threads', match: /\bBarcelona [\d.]+/, version: /\bBarcelona ([\d.]+)/ },
+  { appName: 'Facebook', match: /\bFBAN\/|\bFBAV\/|\bFB_IAB\/|\bFBIOS\b/, version: /\bFBAV\/([\d.]+)/ },
+  {
+    appName: 'TikTok',
+    match: /\bmusical_ly|\bTikTok\b|\btrill_\d|\bBytedanceWebview\b|\bByteLocale\//,
+    version: /(?:\bmusical_ly_|\bTikTok[ /]|\bapp_version\/)([\d.]+)/
+  },
+  { appName: 'Snapchat', match: /\bSnapchat\/[\d.]+/, version: /\bSnapchat\/([\d.]+)/ },
+  { appName: 'Twitter', match: /\bTwitter(?:ForiPhone|Android| for iPhone)?\b/, version: /\bTwitter(?:ForiPhone|Android| for iPhone)?\/([\d.]+)/ },
+  // iOS builds wrap the name in brackets: "[LinkedInApp]/9.29.6590"
+  { appName: 'LinkedIn', match: /\bLinkedInApp\b/, version: /\bLinkedInApp\]?\/([\d.]+)/ },
+  { appName: 'Pinterest', match: /\bPinterest(?: for (?:iOS|Android))?\/[\d.]+/, version: /\bPinterest(?: for (?:iOS|Android))?\/([\d.]+)/ },
+  { appName: 'Reddit', match: /\bReddit\/(?:Version )?[\d.]+/i, version: /\bReddit\/(?:Version )?([\d.]+)/i },
+  { appName: 'Discord', match: /\bDiscord\/[\d.]+/, version: /\bDiscord\/([\d.]+)/ },
+  { appName: 'Telegram', match: /\bTelegram(?:-Android)?\b/, version: /\bTelegram-Android\/([\d.]+)/ },
+  { appName: 'WhatsApp', match: /\bWhatsApp\/[\d.]+/, version: /\bWhatsApp\/([\d.]+)/ },
+  // Case-sensitive with a version so words like "Online" or "Pipeline" don't match
+  { appName: 'Line', match: /\bLine\/[\d.]+/, version: /\bLine\/([\d.]+)/ },
+  { appName: 'WeChat', match: /\bMicroMessenger\/[\d.]+/, version: /\bMicroMessenger\/([\d.]+)/ },
+  { appName: 'KakaoTalk', match: /\bKAKAOTALK\b/i, version: /\bKAKAOTALK ([\d.]+)/i },
+  { appName: 'Twitch', match: /\bTwitch\b/, version: /\bTwitch\/([\d.]+)/ },
+  // Android builds append the ABI: "GSA/15.16.34.29.arm64"
+  { appName: 'Google', match: /\bGSA\/[\d.]+/, version: /\bGSA\/(\d+(?:\.\d+)*)/ }
+];
+
+// Android System WebView marks itself with "; wv)" in the platform section
+const ANDROID_WEBVIEW_REGEX = /;\s*wv\)/;
+
+/**
+ * Reads the user agent, safely outside the browser
+ */
+const getUserAgent = (): string => {
+  if (typeof navigator === 'undefined') {
+    return '';
+  }
+  return navigator.userAgent || navigator.vendor || (window as any).opera || '';
+};
+
+/**
+ * Reads the touch point count (used to spot iPadOS desktop mode)
+ */
+const getMaxTouchPoints = (): number => {
+  return typeof navigator === 'undefined' ? 0 : navigator.maxTouchPoints || 0;
+};
+
+/**
+ * Detects the OS and its version from the user agent
  */
-export const detectEnvironment = (): EnvironmentInfo => {
-  const userAgent = navigator.userAgent || navigator.vendor || (window as any).opera;
-  
-  // Detect OS
-  let os: OSType = OSType.UNKNOWN;
+const detectOS = (userAgent: string, maxTouchPoints: number): { os: OSType; osVersion: string | null } => {
   if (/android/i.test(userAgent)) {
-    os = OSType.ANDROID;
-  } else if (/iPad|iPhone|iPod/.test(userAgent) && !(window as any).MSStream) {
-    os = OSType.IOS;
-  } else {
-    os = OSType.DESKTOP;
+    const version = userAgent.match(/Android (\d+(?:\.\d+)*)/i);
+    return { os: OSType.ANDROID, osVersion: version ? version[1] : null };
+  }
+
+  const isMSStream = typeof window !== 'undefined' && !!(window as any).MSStream;
+  if (/iPad|iPhone|iPod/.test(userAgent) && !isMSStream) {
+    const version = userAgent.match(/(?:iPhone )?OS (\d+(?:_\d+)*) like Mac OS X/);
+    return { os: OSType.IOS, osVersion: version ? version[1].replace(/_/g, '.') : null };
   }
 
-  // Detect in-app browser
-  const isInAppBrowser = IN_APP_REGEX.test(userAgent);
-  const appMatch = userAgent.match(IN_APP_REGEX);
-  const appName = appMatch ? appMatch[0] : 'Web';
+  // iPadOS requests desktop sites by default with a Mac user agent;
+  // Macs have no touch screen, so touch support gives it away
+  if (/Macintosh/.test(userAgent) && maxTouchPoints > 1) {
+    const version = userAgent.match(/Version\/(\d+(?:\.\d+)*)/);
+    return { os: OSType.IOS, osVersion: version ? version[1] : null };
+  }
+
+  return { os: OSType.DESKTOP, osVersion: null };
+};
+
+/**
+ * Detects the rendering engine, distinguishing webviews from full browsers
+ */
+const detectEngine = (userAgent: string, os: OSType, isInAppBrowser: boolean): WebviewEngine => {
+  if (os === OSType.IOS) {
+    return isInAppBrowser ? WebviewEngine.WKWEBVIEW : WebviewEngine.WEBKIT;
+  }
+  if (os === OSType.ANDROID && (ANDROID_WEBVIEW_REGEX.test(userAgent) || /Version\/[\d.]+ Chrome\//.test(userAgent))) {
+    return WebviewEngine.ANDROID_WEBVIEW;
+  }
+  if (/Firefox\//.test(userAgent)) {
+    return WebviewEngine.GECKO;
+  }
+  if (/Chrome\/|Chromium\/|CriOS\/|Edg\//.test(userAgent)) {
+    return WebviewEngine.CHROMIUM;
+  }
+  if (/AppleWebKit\//.test(userAgent)) {
+    return WebviewEngine.WEBKIT;
+  }
+  return WebviewEngine.UNKNOWN;
+};
+
+/**
+ * Detects the current environment (OS, browser type, in-app status)
+ * Pass a user agent to classify one other than the current browser's
+ */
+export const detectEnvironment = (
+  userAgent: string = getUserAgent(),
+  maxTouchPoints: number = getMaxTouchPoints()
+): EnvironmentInfo => {
+  const { os, osVersion } = detectOS(userAgent, maxTouchPoints);
+
+  // Detect in-app browser: first matching rule wins
+  const rule = IN_APP_RULES.find(r => r.match.test(userAgent));
+  let appName = 'Web';
+  let appVersion: string | null = null;
+  let isInAppBrowser = false;
+
+  if (rule) {
+    isInAppBrowser = true;
+    appName = rule.appName;
+    const version = rule.version ? userAgent.match(rule.version) : null;
+    appVersion = version ? version[1] : null;
+  } else if (os === OSType.ANDROID && ANDROID_WEBVIEW_REGEX.test(userAgent)) {
+    // Unknown app embedding the Android System WebView
+    isInAppBrowser = true;
+    appName = 'WebView';
+  }
 
   const browserType = isInAppBrowser ? BrowserType.IN_APP : BrowserType.REAL_BROWSER;
 
   return {
     os,
+    osVersion,
     browserType,
     isInAppBrowser,
-    appName
+    appName,
+    appVersion,
+    webviewEngine: detectEngine(userAgent, os, isInAppBrowser)
   };
 };
 
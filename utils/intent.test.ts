@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { buildAndroidIntent, BROWSER_PACKAGES } from './intent';
+
+describe('buildAndroidIntent', () => {
+  it('keeps https as the intent scheme', () => {
+    expect(buildAndroidIntent('https://example.com/page', { packageName: BROWSER_PACKAGES.chrome })).toBe(
+      'intent://example.com/page#Intent;scheme=https;package=com.android.chrome;S.browser_fallback_url=https%3A%2F%2Fexample.com%2Fpage;end'
+    );
+  });
+
+  it('keeps http instead of upgrading it to https', () => {
+    expect(buildAndroidIntent('http://example.com/', { fallbackUrl: null })).toBe(
+      'intent://example.com/#Intent;scheme=http;end'
+    );
+  });
+
+  it('lower-cases the scheme and trims the destination', () => {
+    expect(buildAndroidIntent('  HTTPS://Example.com/A  ', { fallbackUrl: null })).toBe(
+      'intent://Example.com/A#Intent;scheme=https;end'
+    );
+  });
+
+  it('keeps custom app schemes', () => {
+    expect(buildAndroidIntent('spotify://track/4uLU6hMCjMI75M1A2tKUQC', { packageName: 'com.spotify.music', fallbackUrl: null })).toBe(
+      'intent://track/4uLU6hMCjMI75M1A2tKUQC#Intent;scheme=spotify;package=com.spotify.music;end'
+    );
+  });
+
+  it('keeps custom schemes without a "//" authority', () => {
+    expect(buildAndroidIntent('mailto:hello@example.com', { fallbackUrl: null })).toBe(
+      'intent:hello@example.com#Intent;scheme=mailto;end'
+    );
+  });
+
+  it('keeps the query and fragment before the #Intent section', () => {
+    expect(buildAndroidIntent('https://example.com/a?b=1&c=two#section', { fallbackUrl: null })).toBe(
+      'intent://example.com/a?b=1&c=two#section#Intent;scheme=https;end'
+    );
+  });
+
+  it('encodes "#" and ";" in the fallback URL so they cannot end the intent early', () => {
+    const intent = buildAndroidIntent('https://example.com/app', {
+      packageName: BROWSER_PACKAGES.chrome,
+      fallbackUrl: 'https://example.com/fallback;v=1?q=a;b#top'
+    });
+    expect(intent).toBe(
+      'intent://example.com/app#Intent;scheme=https;package=com.android.chrome;S.browser_fallback_url=https%3A%2F%2Fexample.com%2Ffallback%3Bv%3D1%3Fq%3Da%3Bb%23top;end'
+    );
+    // Android splits on the last '#': only the #Intent section may follow it
+    expect(intent.slice(intent.lastIndexOf('#'))).toMatch(/^#Intent;[^#]*;end$/);
+  });
+
+  it('falls back to the destination itself by default', () => {
+    expect(buildAndroidIntent('https://example.com/a#b')).toBe(
+      'intent://example.com/a#b#Intent;scheme=https;S.browser_fallback_url=https%3A%2F%2Fexample.com%2Fa%23b;end'
+    );
+  });
+
+  it('leaves the package out for packageName: null so Android picks the default handler', () => {
+    expect(buildAndroidIntent('https://example.com/', { packageName: null, fallbackUrl: null })).toBe(
+      'intent://example.com/#Intent;scheme=https;end'
+    );
+  });
+
+  it('adds the action and category', () => {
+    expect(buildAndroidIntent('https://example.com/', {
+      action: 'android.intent.action.VIEW',
+      category: 'android.intent.category.BROWSABLE',
+      fallbackUrl: null
+    })).toBe(
+      'intent://example.com/#Intent;scheme=https;action=android.intent.action.VIEW;category=android.intent.category.BROWSABLE;end'
+    );
+  });
+
+  it('throws for a destination without a scheme', () => {
+    expect(() => buildAndroidIntent('example.com/page')).toThrow('Destination has no scheme: example.com/page');
+    expect(() => buildAndroidIntent('//example.com/page')).toThrow(/no scheme/);
+    expect(() => buildAndroidIntent('')).toThrow(/no scheme/);
+  });
+});
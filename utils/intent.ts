@@ -0,0 +1,71 @@
+/**
+ * Android Intent Utilities
+ * Builds `intent:` URIs that Chrome-based webviews hand to Android
+ *
+ * Format: intent:<uri without scheme>#Intent;scheme=<scheme>;package=<pkg>;S.browser_fallback_url=<url>;end
+ * Android splits on the LAST '#', so fragments in the destination survive,
+ * and the original scheme (http, https, or an app scheme) is kept.
+ */
+
+// Package names of common Android browsers
+export const BROWSER_PACKAGES = {
+  chrome: 'com.android.chrome',
+  samsungInternet: 'com.sec.android.app.sbrowser',
+  firefox: 'org.mozilla.firefox',
+  edge: 'com.microsoft.emmx',
+  brave: 'com.brave.browser',
+  opera: 'com.opera.browser'
+};
+
+export interface AndroidIntentOptions {
+  // App to open; omit (or null) to let Android pick the default handler
+  packageName?: string | null;
+  // Where Chrome goes if no app can handle the intent.
+  // Defaults to the destination itself; null leaves it out
+  fallbackUrl?: string | null;
+  // Intent action (Android defaults to VIEW)
+  action?: string;
+  // Intent category, e.g. 'android.intent.category.BROWSABLE'
+  category?: string;
+}
+
+// RFC 3986 scheme
+const SCHEME_REGEX = /^([a-z][a-z0-9+.-]*):/i;
+
+/**
+ * Escapes a value for use inside the `#Intent;...;end` section
+ */
+const encodeExtra = (value: string): string => encodeURIComponent(value);
+
+/**
+ * Builds an Android intent URI for a destination
+ * Throws if the destination has no scheme
+ */
+export const buildAndroidIntent = (destination: string, options: AndroidIntentOptions = {}): string => {
+  const cleanDest = destination.trim();
+  const schemeMatch = cleanDest.match(SCHEME_REGEX);
+  if (!schemeMatch) {
+    throw new Error(`Destination has no scheme: ${cleanDest}`);
+  }
+
+  const scheme = schemeMatch[1].toLowerCase();
+  // Everything after "scheme:", e.g. "//host/path?query#fragment"
+  const rest = cleanDest.slice(schemeMatch[0].length);
+
+  const parts = [`scheme=${scheme}`];
+  if (options.action) {
+    parts.push(`action=${options.action}`);
+  }
+  if (options.category) {
+    parts.push(`category=${options.category}`);
+  }
+  if (options.packageName) {
+    parts.push(`package=${options.packageName}`);
+  }
+  const fallbackUrl = options.fallbackUrl === undefined ? cleanDest : options.fallbackUrl;
+  if (fallbackUrl) {
+    parts.push(`S.browser_fallback_url=${encodeExtra(fallbackUrl)}`);
+  }
+
+  return `intent:${rest}#Intent;${parts.join(';')};end`;
+};
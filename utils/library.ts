@@ -0,0 +1,367 @@
+/**
+ * Link Library Utilities
+ * Local store of generated links for the Dashboard, kept in IndexedDB
+ * (falling back to localStorage where IndexedDB is unavailable, e.g.
+ * some private modes), plus JSON workspace export/import for sharing.
+ *
+ * Nothing here is ever sent anywhere: links themselves stay stateless.
+ */
+
+import type { LinkPayload } from './payload';
+import { validatePayload } from './validation';
+
+export interface LibraryRevision {
+  savedAt: number;
+  payload: LinkPayload;
+  link: string;
+}
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+  payload: LinkPayload; // Unsigned, unencrypted payload as built in the Dashboard
+  link: string; // Generated ParaLink URL
+  history: LibraryRevision[]; // Earlier versions, newest first
+}
+
+export interface Workspace {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  exportedAt: number;
+  entries: LibraryEntry[];
+}
+
+export type WorkspaceResult =
+  | { ok: true; entries: LibraryEntry[] }
+  | { ok: false; error: string };
+
+export const WORKSPACE_FORMAT = 'paralink-workspace';
+export const WORKSPACE_VERSION = 1;
+
+// Older versions beyond this are dropped when an entry is revised
+export const MAX_LIBRARY_HISTORY = 20;
+
+const DB_NAME = 'paralink';
+const DB_VERSION = 1;
+const STORE_NAME = 'library';
+const LIBRARY_STORAGE_KEY = 'paralink.library';
+
+interface LibraryStore {
+  getAll: () => Promise<LibraryEntry[]>;
+  put: (entry: LibraryEntry) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Opens the library database, creating the object store on first use
+ */
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDbStore = (db: IDBDatabase): LibraryStore => {
+  // Resolves once the transaction commits, with the request's result
+  const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+
+  return {
+    getAll: () => run('readonly', store => store.getAll() as IDBRequest<LibraryEntry[]>),
+    put: entry => run('readwrite', store => store.put(entry)).then(() => undefined),
+    remove: id => run('readwrite', store => store.delete(id)).then(() => undefined)
+  };
+};
+
+const readLocalEntries = (): LibraryEntry[] => {
+  try {
+    const stored = localStorage.getItem(LIBRARY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeLocalEntries = (entries: LibraryEntry[]): void => {
+  localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(entries));
+};
+
+const localStorageStore: LibraryStore = {
+  getAll: async () => readLocalEntries(),
+  put: async entry => {
+    writeLocalEntries([...readLocalEntries().filter(e => e.id !== entry.id), entry]);
+  },
+  remove: async id => {
+    writeLocalEntries(readLocalEntries().filter(e => e.id !== id));
+  }
+};
+
+let storePromise: Promise<LibraryStore> | null = null;
+
+/**
+ * Gets the library store, picking IndexedDB when it opens and localStorage otherwise
+ */
+const getStore = (): Promise<LibraryStore> => {
+  if (!storePromise) {
+    storePromise = typeof indexedDB === 'undefined'
+      ? Promise.resolve(localStorageStore)
+      : openDatabase().then(createIndexedDbStore, () => localStorageStore);
+  }
+  return storePromise;
+};
+
+const createEntryId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Loads all library entries, most recently updated first
+ */
+export const loadLibrary = async (): Promise<LibraryEntry[]> => {
+  const entries = await (await getStore()).getAll();
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Saves (inserts or replaces) a library entry
+ */
+export const saveLibraryEntry = async (entry: LibraryEntry): Promise<void> => {
+  await (await getStore()).put(entry);
+};
+
+/**
+ * Removes a library entry
+ */
+export const deleteLibraryEntry = async (id: string): Promise<void> => {
+  await (await getStore()).remove(id);
+};
+
+/**
+ * Creates a new (unsaved) library entry for a generated link
+ */
+export const createLibraryEntry = (
+  fields: { name: string; tags: string[]; payload: LinkPayload; link: string },
+  now: number = Date.now()
+): LibraryEntry => ({
+  id: createEntryId(),
+  ...fields,
+  createdAt: now,
+  updatedAt: now,
+  history: []
+});
+
+/**
+ * Returns the entry updated to a newly generated version,
+ * keeping the previous version in its history
+ */
+export const reviseLibraryEntry = (
+  entry: LibraryEntry,
+  fields: { name: string; tags: string[]; payload: LinkPayload; link: string },
+  now: number = Date.now()
+): LibraryEntry => {
+  const unchanged = entry.link === fields.link && JSON.stringify(entry.payload) === JSON.stringify(fields.payload);
+  const history = unchanged
+    ? entry.history
+    : [{ savedAt: entry.updatedAt, payload: entry.payload, link: entry.link }, ...entry.history].slice(0, MAX_LIBRARY_HISTORY);
+  return { ...entry, ...fields, updatedAt: now, history };
+};
+
+/**
+ * Returns an unsaved copy of the entry under a new id, without its history
+ */
+export const duplicateLibraryEntry = (entry: LibraryEntry, now: number = Date.now()): LibraryEntry => ({
+  ...entry,
+  id: createEntryId(),
+  name: `${entry.name} (copy)`,
+  createdAt: now,
+  updatedAt: now,
+  history: []
+});
+
+/**
+ * Splits a comma separated tag field into unique, trimmed tags
+ */
+export const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+/**
+ * Suggests an entry name for a payload: its title, profile name or destination host
+ */
+export const getDefaultEntryName = (payload: LinkPayload): string => {
+  const name = payload.profileName || payload.title;
+  if (name) return name;
+  const url = payload.url || (payload.variants && payload.variants[0] && payload.variants[0].url);
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return 'Untitled link';
+  }
+};
+
+/**
+ * Filters entries by a search query
+ * Every word must appear in the name, a tag, the mode or a destination URL
+ */
+export const searchLibrary = (entries: LibraryEntry[], query: string): LibraryEntry[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return entries;
+
+  return entries.filter(entry => {
+    const { payload } = entry;
+    const haystack = [
+      entry.name,
+      ...entry.tags,
+      payload.mode,
+      payload.url,
+      payload.profileName,
+      ...(payload.rules || []).map(r => r.url),
+      ...(payload.variants || []).map(v => v.url),
+      ...(payload.links || []).map(l => l.url),
+      ...(payload.blocks || []).map(b => (b.type === 'link' ? b.url : ''))
+    ].filter(Boolean).join('\n').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+/**
+ * Serializes entries as a JSON workspace file
+ */
+export const exportWorkspace = (entries: LibraryEntry[], now: number = Date.now()): string => {
+  const workspace: Workspace = {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    exportedAt: now,
+    entries
+  };
+  return JSON.stringify(workspace, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a payload and link pair from a workspace file
+ * Returns an error message, or null if both are valid
+ */
+const checkSavedLink = (data: Record<string, unknown>, path: string): string | null => {
+  const result = validatePayload(data.payload);
+  if (result.ok === false) {
+    return `${path}.payload: ${result.error.message}`;
+  }
+  if (typeof data.link !== 'string') {
+    return `${path}.link must be a string`;
+  }
+  return null;
+};
+
+/**
+ * Validates a single workspace entry
+ * Returns an error message, or null if the entry is valid
+ */
+const checkEntry = (data: unknown, path: string): string | null => {
+  if (!isObject(data)) {
+    return `${path} must be an object`;
+  }
+  if (typeof data.id !== 'string' || !data.id) {
+    return `${path}.id must be a non-empty string`;
+  }
+  if (typeof data.name !== 'string') {
+    return `${path}.name must be a string`;
+  }
+  if (!Array.isArray(data.tags) || data.tags.some(tag => typeof tag !== 'string')) {
+    return `${path}.tags must be an array of strings`;
+  }
+  for (const key of ['createdAt', 'updatedAt']) {
+    if (typeof data[key] !== 'number' || !Number.isFinite(data[key])) {
+      return `${path}.${key} must be a timestamp in milliseconds`;
+    }
+  }
+  const linkError = checkSavedLink(data, path);
+  if (linkError) {
+    return linkError;
+  }
+  if (data.history !== undefined) {
+    if (!Array.isArray(data.history)) {
+      return `${path}.history must be an array`;
+    }
+    for (let i = 0; i < data.history.length; i++) {
+      const revision = data.history[i];
+      const revisionPath = `${path}.history[${i}]`;
+      if (!isObject(revision)) {
+        return `${revisionPath} must be an object`;
+      }
+      if (typeof revision.savedAt !== 'number') {
+        return `${revisionPath}.savedAt must be a timestamp in milliseconds`;
+      }
+      const revisionError = checkSavedLink(revision, revisionPath);
+      if (revisionError) {
+        return revisionError;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Parses and validates a workspace file
+ * Every payload goes through the same validator the Viewer uses
+ */
+export const parseWorkspace = (text: string): WorkspaceResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, error: 'the file is not valid JSON' };
+  }
+
+  if (!isObject(data) || data.format !== WORKSPACE_FORMAT) {
+    return { ok: false, error: 'the file is not a ParaLink workspace' };
+  }
+  if (typeof data.version !== 'number' || data.version > WORKSPACE_VERSION) {
+    return { ok: false, error: 'the workspace was exported by a newer version of ParaLink' };
+  }
+  if (!Array.isArray(data.entries)) {
+    return { ok: false, error: 'entries must be an array' };
+  }
+
+  for (let i = 0; i < data.entries.length; i++) {
+    const entryError = checkEntry(data.entries[i], `entries[${i}]`);
+    if (entryError) {
+      return { ok: false, error: entryError };
+    }
+  }
+
+  const entries = (data.entries as LibraryEntry[]).map(entry => ({ ...entry, history: entry.history || [] }));
+  return { ok: true, entries };
+};
+
+/**
+ * Adds imported entries to the library
+ * An entry already in the library is only replaced by a newer version of itself
+ * Returns the number of entries added or updated
+ */
+export const importLibraryEntries = async (entries: LibraryEntry[]): Promise<number> => {
+  const existing = new Map((await loadLibrary()).map(entry => [entry.id, entry]));
+  let imported = 0;
+  for (const entry of entries) {
+    const current = existing.get(entry.id);
+    if (current && current.updatedAt >= entry.updatedAt) continue;
+    await saveLibraryEntry(entry);
+    imported++;
+  }
+  return imported;
+};
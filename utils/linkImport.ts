@@ -0,0 +1,140 @@
+/**
+ * Link Import Utilities
+ * Reads an existing ParaLink URL back into its LinkPayload so the Dashboard
+ * can edit it. The link is the only copy of its content, so every way it
+ * can fail gets its own explanation.
+ */
+
+import { getCleanOrigin, LinkPayload, parsePayload } from './payload';
+import { decryptPayload, isEncryptedPayload } from './encryption';
+import { getShortLinkStore, ShortLinkRecord, ShortLinkStore } from './shortLinks';
+import { readViewerRoute } from './linkRoutes';
+
+export type LinkImportErrorKind =
+  | 'not_a_url' // Input isn't an absolute URL
+  | 'wrong_origin' // Link belongs to another ParaLink deployment (or another site)
+  | 'wrong_route' // Link isn't a Viewer link (/go/<payload>, or legacy #/go?p=...)
+  | 'missing_payload' // No payload in the link
+  | 'unknown_short_link' // Short link whose code the short-link store doesn't know
+  | 'short_link_unavailable' // Short-link store could not be reached
+  | 'locked' // Encrypted, and no (correct) passphrase given
+  | 'corrupt' // Payload can't be decoded (truncated or edited by hand)
+  | 'invalid'; // Payload decodes but isn't a valid link
+
+export type LinkImportResult =
+  | { ok: true; payload: LinkPayload }
+  | { ok: false; kind: LinkImportErrorKind; message: string };
+
+const importError = (kind: LinkImportErrorKind, message: string): LinkImportResult => ({ ok: false, kind, message });
+
+export type ParaLinkParts =
+  | { ok: true; encoded: string; key: string | null }
+  | { ok: false; kind: LinkImportErrorKind; message: string };
+
+/**
+ * Splits a ParaLink URL (path or legacy hash style) into its encoded
+ * payload and key (`k`) without decoding anything
+ * `origin` is the deployment the link must come from (this one by default).
+ */
+export const readParaLink = (input: string, origin: string = getCleanOrigin()): ParaLinkParts => {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch (e) {
+    return { ok: false, kind: 'not_a_url', message: 'Paste the full link, starting with https://' };
+  }
+
+  if (url.origin !== origin) {
+    return { ok: false, kind: 'wrong_origin', message: `This link was made on ${url.host}, not on this ParaLink (${new URL(origin).host}).` };
+  }
+
+  const route = readViewerRoute(url);
+  if (!route || route.route !== 'go') {
+    return { ok: false, kind: 'wrong_route', message: 'This is not a ParaLink. Shared links look like …/go/…' };
+  }
+  if (!route.payload) {
+    return { ok: false, kind: 'missing_payload', message: 'The link has no content. It may have been cut off.' };
+  }
+  return { ok: true, encoded: route.payload, key: route.key };
+};
+
+/**
+ * Like readParaLink, but also accepts short links (/s/<code>), looking
+ * their payload up in the short-link store
+ */
+export const resolveParaLink = async (
+  input: string,
+  origin: string = getCleanOrigin(),
+  store: ShortLinkStore | null = getShortLinkStore()
+): Promise<ParaLinkParts> => {
+  const parts = readParaLink(input, origin);
+  if (parts.ok === true || parts.kind !== 'wrong_route') {
+    return parts;
+  }
+
+  // readParaLink already checked that this parses
+  const route = readViewerRoute(new URL(input.trim()));
+  if (!route || route.route !== 's') {
+    return parts;
+  }
+  if (!store) {
+    return { ok: false, kind: 'unknown_short_link', message: 'This is a short link, but short links are not set up on this ParaLink.' };
+  }
+
+  let record: ShortLinkRecord | null = null;
+  try {
+    record = await store.resolve(route.code);
+  } catch (e) {
+    return { ok: false, kind: 'short_link_unavailable', message: 'The short-link service could not be reached. Try again in a moment.' };
+  }
+  if (!record) {
+    return { ok: false, kind: 'unknown_short_link', message: 'No short link with this code exists. Check that it was copied correctly.' };
+  }
+  return { ok: true, encoded: record.payload, key: route.key };
+};
+
+/**
+ * Imports a ParaLink URL (full or short)
+ * Encrypted links are unlocked with the key in the link or the given passphrase.
+ * `origin` is the deployment the link must come from (this one by default).
+ */
+export const importParaLink = async (
+  input: string,
+  passphrase: string = '',
+  origin: string = getCleanOrigin(),
+  store: ShortLinkStore | null = getShortLinkStore()
+): Promise<LinkImportResult> => {
+  const parts = await resolveParaLink(input, origin, store);
+  if (parts.ok === false) {
+    return parts;
+  }
+  let encoded = parts.encoded;
+
+  if (isEncryptedPayload(encoded)) {
+    const key = passphrase || parts.key;
+    if (!key) {
+      return importError('locked', 'This link is encrypted. Enter its passphrase to import it.');
+    }
+    let inner: string | null;
+    try {
+      inner = await decryptPayload(encoded, key);
+    } catch (e) {
+      return importError('corrupt', 'The encrypted content of this link is damaged. It may have been cut off.');
+    }
+    if (inner === null) {
+      return importError('locked', passphrase
+        ? 'That passphrase is not correct.'
+        : 'The key inside this link is wrong. Enter the passphrase instead.');
+    }
+    encoded = inner;
+  }
+
+  // Same decoding steps as decodePayload, keeping the reason when it fails
+  const result = parsePayload(encoded);
+  if (result.ok === false) {
+    return result.error.kind === 'schema'
+      ? importError('invalid', `The link decodes, but its content is not valid: ${result.error.message}`)
+      : importError('corrupt', 'The content of this link is damaged and cannot be read. It may have been cut off or edited.');
+  }
+  return { ok: true, payload: result.payload };
+};
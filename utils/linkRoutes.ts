@@ -0,0 +1,138 @@
+/**
+ * Link Route Utilities
+ * Builds and reads the URLs the Viewer is served on (see App.tsx)
+ *
+ * - Path style: /go/<payload>#k=<key> and /s/<code>#k=<key>
+ * - Hash style (legacy): /#/go?p=<payload>&k=<key> and /#/s/<code>?k=<key>
+ *
+ * The key of a key-in-link encrypted link always lives in the fragment,
+ * which browsers never send, so hosts, short-link services and preview
+ * servers can't log it.
+ *
+ * Path links survive apps and link scanners that drop the fragment, and
+ * the server can see the route, but the host must serve index.html for
+ * every path (firebase.json rewrites `**`). The app routes by path;
+ * hash links are upgraded to their path form when the page loads.
+ */
+
+import { config } from './config';
+
+export type LinkRouteStyle = 'path' | 'hash';
+
+export type ViewerRoute =
+  | { route: 'go'; payload: string | null; key: string | null }
+  | { route: 's'; code: string; key: string | null };
+
+// Key as a parameter: `#k=` after a path route, `?k=`/`&k=` inside a hash route
+const keyParam = (key: string | null | undefined, separator: '#' | '?' | '&'): string =>
+  key ? `${separator}k=${encodeURIComponent(key)}` : '';
+
+/**
+ * Builds the Viewer URL for an encoded payload
+ * `key` is the passphrase of a key-in-link encrypted payload.
+ */
+export const buildPayloadUrl = (
+  origin: string,
+  encoded: string,
+  key?: string | null,
+  style: LinkRouteStyle = config.routing.style
+): string =>
+  style === 'hash'
+    ? `${origin}/#/go?p=${encoded}${keyParam(key, '&')}`
+    : `${origin}/go/${encodeURIComponent(encoded)}${keyParam(key, '#')}`;
+
+/**
+ * Builds the Viewer URL for a short-link code
+ */
+export const buildShortUrl = (
+  origin: string,
+  code: string,
+  key?: string | null,
+  style: LinkRouteStyle = config.routing.style
+): string =>
+  style === 'hash'
+    ? `${origin}/#/s/${encodeURIComponent(code)}${keyParam(key, '?')}`
+    : `${origin}/s/${encodeURIComponent(code)}${keyParam(key, '#')}`;
+
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (e) {
+    return segment;
+  }
+};
+
+/**
+ * Gets the route a URL opens in the app: the hash route for legacy links,
+ * the path otherwise
+ */
+const getAppLocation = (url: URL): URL =>
+  url.hash.startsWith('#/') ? new URL(url.hash.substring(1), url.origin) : url;
+
+/**
+ * Reads the key of a path-style link from its fragment (`#k=…`)
+ * Links made before keys moved to the fragment carry it as `?k=`.
+ */
+export const readLinkKey = (search: string, hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get('k') || new URLSearchParams(search).get('k');
+
+/**
+ * Reads the Viewer route of a link in either style, or null if the link
+ * doesn't open the Viewer
+ * `/go?p=<payload>` (query instead of path) is accepted too.
+ */
+export const readViewerRoute = (url: URL): ViewerRoute | null => {
+  const location = getAppLocation(url);
+  const key = url.hash.startsWith('#/')
+    ? location.searchParams.get('k')
+    : readLinkKey(url.search, url.hash);
+  const segments = location.pathname.split('/').filter(Boolean);
+
+  if (segments[0] === 'go' && segments.length <= 2) {
+    const payload = segments[1] ? decodeSegment(segments[1]) : location.searchParams.get('p');
+    return { route: 'go', payload, key };
+  }
+  if (segments[0] === 's' && segments.length === 2) {
+    return { route: 's', code: decodeSegment(segments[1]), key };
+  }
+  return null;
+};
+
+/**
+ * Gets the path-style location for a legacy hash URL (`#/go?p=…`, `#/s/…`, `#/`),
+ * or null if the URL needs no upgrade
+ * The key stays in the fragment (`#k=…`); query parameters other than `p`
+ * and `k` are kept. A Viewer URL with its key in the query (`?k=`) gets
+ * the key moved to the fragment.
+ */
+export const getUpgradedLocation = (url: URL): string | null => {
+  if (!url.hash.startsWith('#/')) {
+    if (!url.searchParams.has('k') || !readViewerRoute(url)) {
+      return null;
+    }
+    const key = readLinkKey(url.search, url.hash);
+    const query = new URLSearchParams(url.search);
+    query.delete('k');
+    const search = query.toString();
+    return `${url.pathname}${search ? `?${search}` : ''}${keyParam(key, '#')}`;
+  }
+  const location = getAppLocation(url);
+  const key = location.searchParams.get('k');
+  const payload = location.pathname === '/go' ? location.searchParams.get('p') : null;
+  location.searchParams.delete('p');
+  location.searchParams.delete('k');
+  const path = payload ? `/go/${encodeURIComponent(payload)}` : location.pathname;
+  return `${path}${location.search}${keyParam(key, '#')}`;
+};
+
+/**
+ * Compatibility shim for links made before path routes: rewrites the
+ * address of a legacy hash URL to its path form, without a reload
+ * Runs before the router reads the location (see index.tsx).
+ */
+export const upgradeLegacyUrl = (): void => {
+  const upgraded = getUpgradedLocation(new URL(window.location.href));
+  if (upgraded) {
+    window.history.replaceState(window.history.state, '', upgraded);
+  }
+};
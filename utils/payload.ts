@@ -3,28 +3,88 @@
  * Stateless link data encoding for URL-based routing
  */
 
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { fromBase64Url, toBase64Url } from './base64url';
+import { payloadError, PayloadResult, validatePayload } from './validation';
+import { PayloadSignature, signPayload, SigningKey } from './signing';
+import { encryptPayload, isEncryptedPayload } from './encryption';
+import type { ShortLinkStore } from './shortLinks';
+import { buildPayloadUrl, buildShortUrl, LinkRouteStyle } from './linkRoutes';
+import type { SmartRule } from './smartRouting';
+import type { SplitVariant } from './split';
+import type { BioTheme } from './theme';
+import type { BioBlock } from './bioBlocks';
+import type { UtmParams } from './utm';
+
 export interface LinkItem {
   title: string;
   url: string;
+  // Optional activation window (epoch ms, see utils/schedule.ts)
+  notBefore?: number;
+  notAfter?: number;
+  // Try the native app first (YouTube, Spotify, ...), see utils/deeplinks.ts
+  openInApp?: boolean;
 }
 
 export interface LinkPayload {
-  mode: 'direct' | 'bio';
-  // Direct Mode
+  mode: 'direct' | 'bio' | 'smart' | 'split';
+  // Direct Mode (and the default destination in Smart Mode)
   url?: string;
   title?: string;
+  openInApp?: boolean;
   // Bio Mode
   profileName?: string;
   links?: LinkItem[];
+  blocks?: BioBlock[]; // Rich content, replaces `links` when set (see utils/bioBlocks.ts)
+  theme?: BioTheme; // Preset name plus overrides (see utils/theme.ts)
+  // Smart Mode: first matching rule wins (see utils/smartRouting.ts)
+  rules?: SmartRule[];
+  // Split Mode: weighted variants, sticky per visitor (see utils/split.ts)
+  variants?: SplitVariant[];
+  variantParam?: string; // Query parameter carrying the variant id (default 'variant')
+  // Optional activation window for the whole link (epoch ms)
+  notBefore?: number;
+  notAfter?: number;
+  // Image shown when the link is shared in social apps (https, see utils/socialPreview.ts)
+  previewImage?: string;
+  // Added to every destination when the visitor is sent on (see utils/utm.ts)
+  utm?: UtmParams;
+  passthrough?: string[]; // Incoming query parameters forwarded to the destination, e.g. ['ref']
+  // Optional creator signature (see utils/signing.ts)
+  sig?: PayloadSignature;
+}
+
+export interface ParaLinkOptions {
+  signingKey?: SigningKey | null; // Sign the payload with the creator's key
+  passphrase?: string; // Encrypt the payload (see utils/encryption.ts)
+  includeKey?: boolean; // Carry the passphrase in the link's fragment (`#k=`)
+  origin?: string; // Deployment the link points at (default: this page's origin, see getCleanOrigin)
+  shorten?: ShortLinkStore | null; // Store the payload and return a short /s/<code> link
+  routeStyle?: LinkRouteStyle; // 'path' (/go/<payload>) or 'hash' (/#/go?p=…), default from config.routing
 }
 
 /**
- * Encodes a LinkPayload to a base64 string for URL embedding
+ * Current payload format version.
+ * Written as a `<version>.` prefix on the encoded string so older links
+ * keep decoding after the format changes. Legacy links have no prefix (v0).
+ *
+ * - v0: btoa(JSON) (Latin-1 only, not URL-safe)
+ * - v1: base64url(deflate-raw(UTF-8 JSON))
+ */
+export const PAYLOAD_VERSION = 1;
+
+// Version prefix, e.g. "1.eJyrVk..." (standard base64 never contains '.')
+const VERSION_PREFIX_REGEX = /^(\d+)\.([\s\S]*)$/;
+
+/**
+ * Encodes a LinkPayload to a versioned, compressed, URL-safe string
+ * Encoding order: JSON.stringify → UTF-8 → deflate → base64url
  */
 export const encodePayload = (data: LinkPayload): string => {
   try {
     const json = JSON.stringify(data);
-    return btoa(json);
+    const compressed = deflateSync(strToU8(json), { level: 9 });
+    return `${PAYLOAD_VERSION}.${toBase64Url(compressed)}`;
   } catch (e) {
     console.error('Encoding failed', e);
     return '';
@@ -32,30 +92,75 @@ export const encodePayload = (data: LinkPayload): string => {
 };
 
 /**
- * Decodes a base64 string back to a LinkPayload
- * Decoding order: decodeURIComponent → atob → JSON.parse
+ * Decodes an encoded payload string back to its JSON text
+ * Supports the current format and legacy unprefixed (v0) links.
+ * Throws if the string cannot be decoded.
  */
-export const decodePayload = (base64: string): LinkPayload | null => {
-  if (!base64 || typeof base64 !== 'string') {
-    return null;
+const decodePayloadJson = (encoded: string): string => {
+  // Step 1: URL decode (links pasted through some apps arrive percent-encoded)
+  const urlDecoded = decodeURIComponent(encoded).trim();
+
+  if (isEncryptedPayload(urlDecoded)) {
+    // Encrypted payloads must go through decryptPayload first
+    throw new Error('Payload is encrypted');
   }
-  
+
+  const versioned = urlDecoded.match(VERSION_PREFIX_REGEX);
+  if (!versioned) {
+    // v0: plain base64 of Latin-1 JSON
+    return atob(urlDecoded);
+  }
+
+  const version = Number(versioned[1]);
+  if (version === 1) {
+    // Step 2: base64url → deflate → UTF-8
+    return strFromU8(inflateSync(fromBase64Url(versioned[2])));
+  }
+
+  throw new Error(`Unsupported payload version: ${version}`);
+};
+
+/**
+ * Decodes and validates an encoded payload string
+ * Decoding order: decodeURIComponent → version prefix → base64 → inflate → JSON.parse → schema
+ * Returns the typed payload, or an error describing which step failed
+ */
+export const parsePayload = (encoded: string | null | undefined): PayloadResult => {
+  if (!encoded || typeof encoded !== 'string') {
+    return payloadError('missing_param', 'Payload parameter "p" is missing');
+  }
+
+  let json: string;
   try {
-    // Step 1: URL decode (decodeURIComponent)
-    const urlDecoded = decodeURIComponent(base64);
-    
-    // Step 2: Base64 decode (atob)
-    const json = atob(urlDecoded);
-    
-    // Step 3: JSON parse
-    return JSON.parse(json);
+    json = decodePayloadJson(encoded);
   } catch (e) {
+    return payloadError('bad_encoding', e instanceof Error ? e.message : 'Payload could not be decoded');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return payloadError('bad_json', e instanceof Error ? e.message : 'Payload is not valid JSON');
+  }
+
+  return validatePayload(data);
+};
+
+/**
+ * Decodes an encoded string back to a LinkPayload
+ * Returns null if the payload cannot be decoded or is invalid (see parsePayload for details)
+ */
+export const decodePayload = (encoded: string): LinkPayload | null => {
+  const result = parsePayload(encoded);
+  if (result.ok === false) {
     // Decoding failed - only log in development
     if (import.meta.env?.DEV) {
-      console.error('Decoding failed:', e);
+      console.error('Decoding failed:', result.error);
     }
     return null;
   }
+  return result.payload;
 };
 
 /**
@@ -80,10 +185,24 @@ export const getCleanOrigin = (): string => {
 
 /**
  * Generates a ParaLink URL from a payload
+ * Optionally signs the payload first so the Viewer can detect tampering,
+ * then encrypts it so only visitors with the passphrase can read it.
+ * With `shorten`, the encoded payload goes to the short-link store instead
+ * of into the link (a key-in-link passphrase still stays on the link).
  */
-export const generateParaLink = (payload: LinkPayload): string => {
-  const encoded = encodePayload(payload);
-  const origin = getCleanOrigin();
-  return `${origin}/#/go?p=${encoded}`;
+export const generateParaLink = async (payload: LinkPayload, options: ParaLinkOptions = {}): Promise<string> => {
+  const finalPayload = options.signingKey ? await signPayload(payload, options.signingKey) : payload;
+  let encoded = encodePayload(finalPayload);
+  if (options.passphrase) {
+    encoded = await encryptPayload(encoded, options.passphrase);
+  }
+
+  const origin = options.origin ? options.origin.replace(/\/+$/, '') : getCleanOrigin();
+  const key = options.passphrase && options.includeKey ? options.passphrase : null;
+  if (options.shorten) {
+    const code = await options.shorten.shorten(encoded);
+    return buildShortUrl(origin, code, key, options.routeStyle);
+  }
+  return buildPayloadUrl(origin, encoded, key, options.routeStyle);
 };
 
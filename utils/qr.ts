@@ -0,0 +1,484 @@
+/**
+ * QR Code Encoder
+ * Self-contained QR Model 2 encoder (ISO/IEC 18004) for generated links,
+ * so creators never have to paste links into third-party generators.
+ *
+ * Links are encoded in byte mode (UTF-8). The version (size) and the
+ * error-correction level are picked automatically: the smallest version
+ * that fits at the minimum level, then the strongest level that still
+ * fits in that version. Long bio payloads end up in large versions.
+ */
+
+export type QrEccLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number; // 1-40
+  ecc: QrEccLevel;
+  size: number; // Modules per side (version * 4 + 17), without quiet zone
+  modules: boolean[][]; // [y][x], true = dark
+}
+
+export interface QrOptions {
+  minEcc?: QrEccLevel; // Lowest acceptable level (default 'L')
+  boostEcc?: boolean; // Raise the level while the version stays the same (default true)
+}
+
+// Weakest to strongest; each recovers roughly 7%, 15%, 25% and 30% of the symbol
+export const QR_ECC_LEVELS: QrEccLevel[] = ['L', 'M', 'Q', 'H'];
+
+export const MIN_QR_VERSION = 1;
+export const MAX_QR_VERSION = 40;
+
+// Bits identifying the level in the format information
+const ECC_FORMAT_BITS: Record<QrEccLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error-correction codewords per block, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrEccLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+// Error-correction blocks, indexed by version (index 0 unused)
+const ECC_BLOCKS: Record<QrEccLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+// Penalty weights for choosing a mask (rules N1-N4 of the standard)
+const PENALTY_RUN = 3;
+const PENALTY_BOX = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+const getBit = (value: number, i: number): boolean => ((value >>> i) & 1) !== 0;
+
+/**
+ * Multiplies two elements of GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+ */
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+/**
+ * Gets the Reed-Solomon generator polynomial of the given degree
+ * (coefficients from highest to lowest power, leading 1 omitted)
+ */
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+/**
+ * Computes the Reed-Solomon error-correction codewords for a block
+ */
+const reedSolomonRemainder = (data: number[], degree: number): number[] => {
+  const divisor = reedSolomonDivisor(degree);
+  const result = new Array(degree).fill(0);
+  for (const b of data) {
+    const factor = b ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+/**
+ * Number of modules available for data and error correction in a version
+ */
+const rawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      result -= 36; // Version information
+    }
+  }
+  return result;
+};
+
+/**
+ * Number of data codewords (excluding error correction) in a version and level
+ */
+const dataCodewords = (version: number, ecc: QrEccLevel): number =>
+  Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[ecc][version] * ECC_BLOCKS[ecc][version];
+
+/**
+ * Bits needed to encode `byteLength` bytes in byte mode in a version
+ */
+const byteModeBits = (byteLength: number, version: number): number =>
+  4 + (version <= 9 ? 8 : 16) + byteLength * 8;
+
+/**
+ * Gets the most bytes a version and level can hold in byte mode
+ */
+export const getQrByteCapacity = (version: number, ecc: QrEccLevel): number =>
+  Math.floor((dataCodewords(version, ecc) * 8 - byteModeBits(0, version)) / 8);
+
+/**
+ * Finds the smallest version holding `byteLength` bytes at a level, or null
+ */
+const findVersion = (byteLength: number, ecc: QrEccLevel): number | null => {
+  for (let version = MIN_QR_VERSION; version <= MAX_QR_VERSION; version++) {
+    if (byteModeBits(byteLength, version) <= dataCodewords(version, ecc) * 8) {
+      return version;
+    }
+  }
+  return null;
+};
+
+/**
+ * Builds the data codewords: mode, length, bytes, terminator and padding
+ */
+const buildDataCodewords = (bytes: Uint8Array, version: number, ecc: QrEccLevel): number[] => {
+  const bits: boolean[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push(getBit(value, i));
+    }
+  };
+
+  append(0b0100, 4); // Byte mode
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(b => append(b, 8));
+
+  const capacity = dataCodewords(version, ecc) * 8;
+  append(0, Math.min(4, capacity - bits.length)); // Terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    let b = 0;
+    for (let j = 0; j < 8; j++) {
+      b = (b << 1) | (bits[i + j] ? 1 : 0);
+    }
+    codewords.push(b);
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+};
+
+/**
+ * Splits data into blocks, appends error correction and interleaves the result
+ */
+const addErrorCorrection = (data: number[], version: number, ecc: QrEccLevel): number[] => {
+  const numBlocks = ECC_BLOCKS[ecc][version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dataLength = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const blockData = data.slice(k, k + dataLength);
+    k += dataLength;
+    const blockEcc = reedSolomonRemainder(blockData, blockEccLength);
+    if (i < numShortBlocks) {
+      blockData.push(0); // Placeholder so all blocks line up, skipped below
+    }
+    blocks.push([...blockData, ...blockEcc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+/**
+ * Gets the centre coordinates of the alignment patterns in a version
+ */
+const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 10; result.length < count; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+/**
+ * Module grid for one symbol, with the function patterns tracked separately
+ * so data placement and masking leave them alone
+ */
+interface QrGrid {
+  version: number;
+  ecc: QrEccLevel;
+  size: number;
+  modules: boolean[][];
+  reserved: boolean[][];
+}
+
+const setFunctionModule = (grid: QrGrid, x: number, y: number, dark: boolean) => {
+  grid.modules[y][x] = dark;
+  grid.reserved[y][x] = true;
+};
+
+const drawFormatBits = (grid: QrGrid, mask: number) => {
+  const { size } = grid;
+  const data = (ECC_FORMAT_BITS[grid.ecc] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) setFunctionModule(grid, 8, i, getBit(bits, i));
+  setFunctionModule(grid, 8, 7, getBit(bits, 6));
+  setFunctionModule(grid, 8, 8, getBit(bits, 7));
+  setFunctionModule(grid, 7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) setFunctionModule(grid, 14 - i, 8, getBit(bits, i));
+
+  // Split between the other two finders
+  for (let i = 0; i < 8; i++) setFunctionModule(grid, size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) setFunctionModule(grid, 8, size - 15 + i, getBit(bits, i));
+  setFunctionModule(grid, 8, size - 8, true); // Always dark
+};
+
+const drawVersionBits = (grid: QrGrid) => {
+  if (grid.version < 7) return;
+  let remainder = grid.version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  const bits = (grid.version << 12) | remainder;
+  for (let i = 0; i < 18; i++) {
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(grid, a, b, getBit(bits, i));
+    setFunctionModule(grid, b, a, getBit(bits, i));
+  }
+};
+
+/**
+ * Creates an empty grid with the timing, finder, alignment, format and version patterns
+ */
+const createGrid = (version: number, ecc: QrEccLevel): QrGrid => {
+  const size = version * 4 + 17;
+  const grid: QrGrid = {
+    version,
+    ecc,
+    size,
+    modules: Array.from({ length: size }, () => new Array(size).fill(false)),
+    reserved: Array.from({ length: size }, () => new Array(size).fill(false))
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(grid, 6, i, i % 2 === 0);
+    setFunctionModule(grid, i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          setFunctionModule(grid, x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would overlap the finders
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  drawFormatBits(grid, 0); // Reserves the area; redrawn once the mask is chosen
+  drawVersionBits(grid);
+  return grid;
+};
+
+/**
+ * Places codewords in the zigzag order, two columns at a time from the right
+ */
+const drawCodewords = (grid: QrGrid, codewords: number[]) => {
+  const { size } = grid;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // Skip the vertical timing pattern
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!grid.reserved[y][x] && i < codewords.length * 8) {
+          grid.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Flips the data modules selected by a mask (applying it twice undoes it)
+ */
+const applyMask = (grid: QrGrid, mask: number) => {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.reserved[y][x] && MASKS[mask](x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+};
+
+/**
+ * Scores how hard a symbol is to scan (lower is better)
+ */
+const getPenalty = (modules: boolean[][]): number => {
+  const size = modules.length;
+  let result = 0;
+
+  const scoreLine = (line: boolean[]) => {
+    let runLength = 1;
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        runLength++;
+      } else {
+        if (runLength >= 5) result += PENALTY_RUN + (runLength - 5);
+        runLength = 1;
+      }
+    }
+    // 1:1:3:1:1 finder-like patterns with four light modules on either side
+    for (let i = 0; i + FINDER_LIKE.length <= line.length; i++) {
+      if (!FINDER_LIKE.every((dark, k) => line[i + k] === dark)) continue;
+      const lightBefore = i >= 4 && [1, 2, 3, 4].every(k => !line[i - k]);
+      const end = i + FINDER_LIKE.length;
+      const lightAfter = end + 4 <= line.length && [0, 1, 2, 3].every(k => !line[end + k]);
+      if (lightBefore || lightAfter) result += PENALTY_FINDER_LIKE;
+    }
+  };
+
+  for (let y = 0; y < size; y++) scoreLine(modules[y]);
+  for (let x = 0; x < size; x++) scoreLine(modules.map(row => row[x]));
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+        result += PENALTY_BOX;
+      }
+    }
+  }
+
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  return result + Math.max(k, 0) * PENALTY_BALANCE;
+};
+
+/**
+ * Picks the version and level for a payload of `byteLength` bytes
+ * Returns null if it doesn't fit in version 40 at the minimum level
+ */
+export const chooseQrParameters = (
+  byteLength: number,
+  options: QrOptions = {}
+): { version: number; ecc: QrEccLevel } | null => {
+  const minLevel = QR_ECC_LEVELS.indexOf(options.minEcc || 'L');
+  const version = findVersion(byteLength, QR_ECC_LEVELS[minLevel]);
+  if (version === null) return null;
+
+  let ecc = QR_ECC_LEVELS[minLevel];
+  if (options.boostEcc !== false) {
+    for (const level of QR_ECC_LEVELS.slice(minLevel + 1)) {
+      if (byteModeBits(byteLength, version) <= dataCodewords(version, level) * 8) {
+        ecc = level;
+      }
+    }
+  }
+  return { version, ecc };
+};
+
+/**
+ * Encodes text (UTF-8, byte mode) as a QR code
+ * Returns null if the text is too long for a QR code at the minimum level
+ */
+export const encodeQr = (text: string, options: QrOptions = {}): QrCode | null => {
+  const bytes = new TextEncoder().encode(text);
+  const parameters = chooseQrParameters(bytes.length, options);
+  if (!parameters) return null;
+
+  const { version, ecc } = parameters;
+  const grid = createGrid(version, ecc);
+  drawCodewords(grid, addErrorCorrection(buildDataCodewords(bytes, version, ecc), version, ecc));
+
+  // Keep the mask with the lowest penalty
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, mask);
+    const penalty = getPenalty(grid.modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(grid, mask);
+  }
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, bestMask);
+
+  return { version, ecc, size: grid.size, modules: grid.modules };
+};
@@ -0,0 +1,163 @@
+/**
+ * QR Code Export Utilities
+ * Renders QR codes from utils/qr.ts to SVG and PNG, with custom colors
+ * and an optional logo knocked out of the centre
+ *
+ * A logo hides the modules underneath it, so it is only allowed at the
+ * Q and H error-correction levels and sized to what they can recover.
+ */
+
+import { encodeQr, QrCode, QrEccLevel } from './qr';
+import { getLuminance } from './theme';
+
+export interface QrStyle {
+  foreground: string; // Hex color of the dark modules
+  background: string; // Hex color of the light modules and quiet zone
+  logo?: string | null; // Image data URL placed in the centre
+  margin?: number; // Quiet zone in modules (default 4, the minimum scanners expect)
+}
+
+export interface QrBox {
+  x: number;
+  y: number;
+  size: number; // In modules
+}
+
+export const DEFAULT_QR_STYLE: QrStyle = { foreground: '#000000', background: '#ffffff' };
+
+export const DEFAULT_QR_MARGIN = 4;
+
+// Widest logo (as a share of the symbol width) each level still recovers from
+const LOGO_MAX_WIDTH: Partial<Record<QrEccLevel, number>> = { Q: 0.2, H: 0.28 };
+
+// Dark-on-light contrast scanners handle reliably
+const MIN_QR_CONTRAST = 4;
+
+/**
+ * Encodes a link for a QR code with a logo, raising the error correction
+ * so the logo can cover part of the symbol
+ * Falls back to a plain code (no logo box) when the link is too long for that.
+ */
+export const encodeQrWithLogo = (text: string, withLogo: boolean): QrCode | null => {
+  if (withLogo) {
+    const qr = encodeQr(text, { minEcc: 'H' }) || encodeQr(text, { minEcc: 'Q' });
+    if (qr) return qr;
+  }
+  return encodeQr(text);
+};
+
+/**
+ * Gets the centre square knocked out for a logo, or null if the level can't afford one
+ * The square has the same parity as the symbol so it stays centred on the module grid
+ */
+export const getLogoBox = (qr: QrCode): QrBox | null => {
+  const fraction = LOGO_MAX_WIDTH[qr.ecc];
+  if (!fraction) return null;
+  let size = Math.floor(qr.size * fraction);
+  if ((qr.size - size) % 2 !== 0) size--;
+  const offset = (qr.size - size) / 2;
+  return { x: offset, y: offset, size };
+};
+
+/**
+ * Checks that the colors give a dark code on a light background with enough contrast
+ */
+export const hasScannableContrast = (style: QrStyle): boolean => {
+  const dark = getLuminance(style.foreground);
+  const light = getLuminance(style.background);
+  return light > dark && (light + 0.05) / (dark + 0.05) >= MIN_QR_CONTRAST;
+};
+
+const isInBox = (box: QrBox | null, x: number, y: number): boolean =>
+  !!box && x >= box.x && x < box.x + box.size && y >= box.y && y < box.y + box.size;
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * Renders a QR code as a standalone SVG document
+ */
+export const renderQrSvg = (qr: QrCode, style: QrStyle = DEFAULT_QR_STYLE): string => {
+  const margin = style.margin ?? DEFAULT_QR_MARGIN;
+  const width = qr.size + margin * 2;
+  const box = style.logo ? getLogoBox(qr) : null;
+
+  let path = '';
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark && !isInBox(box, x, y)) {
+        path += `M${x + margin},${y + margin}h1v1h-1z`;
+      }
+    });
+  });
+
+  // The logo sits inside the knocked-out box with a one-module border
+  const logo = box
+    ? `<image href="${escapeAttribute(style.logo!)}" x="${box.x + margin + 1}" y="${box.y + margin + 1}" width="${box.size - 2}" height="${box.size - 2}" preserveAspectRatio="xMidYMid meet"/>`
+    : '';
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${width}" shape-rendering="crispEdges">`,
+    `<rect width="${width}" height="${width}" fill="${escapeAttribute(style.background)}"/>`,
+    `<path d="${path}" fill="${escapeAttribute(style.foreground)}"/>`,
+    logo,
+    '</svg>'
+  ].join('');
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Logo image could not be loaded'));
+    image.src = src;
+  });
+
+/**
+ * Renders a QR code as a PNG image
+ * `moduleSize` is the width of one module in pixels
+ */
+export const renderQrPng = async (
+  qr: QrCode,
+  style: QrStyle = DEFAULT_QR_STYLE,
+  moduleSize: number = 16
+): Promise<Blob> => {
+  const margin = style.margin ?? DEFAULT_QR_MARGIN;
+  const width = (qr.size + margin * 2) * moduleSize;
+  const box = style.logo ? getLogoBox(qr) : null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = width;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not available');
+  }
+
+  ctx.fillStyle = style.background;
+  ctx.fillRect(0, 0, width, width);
+  ctx.fillStyle = style.foreground;
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark && !isInBox(box, x, y)) {
+        ctx.fillRect((x + margin) * moduleSize, (y + margin) * moduleSize, moduleSize, moduleSize);
+      }
+    });
+  });
+
+  if (box) {
+    // Same placement as the SVG: fit inside the box, keeping the aspect ratio
+    const image = await loadImage(style.logo!);
+    const area = (box.size - 2) * moduleSize;
+    const scale = Math.min(area / image.width, area / image.height);
+    const w = image.width * scale;
+    const h = image.height * scale;
+    const cx = (box.x + margin + box.size / 2) * moduleSize;
+    const cy = (box.y + margin + box.size / 2) * moduleSize;
+    ctx.drawImage(image, cx - w / 2, cy - h / 2, w, h);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG export failed'))), 'image/png');
+  });
+};
@@ -3,28 +3,35 @@
  * Handles platform-specific link opening strategies
  */
 
-import { detectEnvironment, OSType, isRealBrowser } from './environment';
+import { BrowserType, detectEnvironment, EnvironmentInfo, OSType } from './environment';
+import { isNavigable } from './safety';
+import { BreakoutResult, BreakoutStrategy, resolveBreakoutStrategy, runBreakoutStrategy, waitForPageExit } from './breakout';
+import { buildAndroidIntent, BROWSER_PACKAGES } from './intent';
+import { DEEP_LINK_TIMEOUT_MS, getAppUrl } from './deeplinks';
+import { DestinationTags, tagDestination } from './utm';
+
+export interface OpenOptions {
+  openInApp?: boolean; // Try the destination's native app first (see utils/deeplinks.ts)
+  env?: EnvironmentInfo; // Environment to open for (default: detected)
+  tags?: DestinationTags; // UTM settings and forwarded parameters (see utils/utm.ts)
+}
 
 /**
  * Generates an Android Intent URL to open in Chrome
+ * Pass null as the package to let Android pick the default browser
+ * (see utils/intent.ts for the full builder)
  */
-export const generateAndroidIntent = (destination: string): string => {
-  const cleanDest = destination.trim();
-  const encodedDest = encodeURIComponent(cleanDest);
-  const schemeUrl = cleanDest.replace(/^https?:\/\//, '');
-  
-  return `intent://${schemeUrl}#Intent;scheme=https;package=com.android.chrome;S.browser_fallback_url=${encodedDest};end;`;
+export const generateAndroidIntent = (destination: string, packageName: string | null = BROWSER_PACKAGES.chrome): string => {
+  return buildAndroidIntent(destination, { packageName });
 };
 
 /**
  * Determines if the browser transition confirmation should be shown
  * Returns true if user is in an in-app browser and needs to transition
  */
-export const shouldShowBrowserTransition = (): boolean => {
-  const env = detectEnvironment();
-  
+export const shouldShowBrowserTransition = (env: EnvironmentInfo = detectEnvironment()): boolean => {
   // Skip if already in a real browser
-  if (isRealBrowser()) {
+  if (env.browserType === BrowserType.REAL_BROWSER) {
     return false;
   }
   
@@ -32,54 +39,81 @@ export const shouldShowBrowserTransition = (): boolean => {
   return env.isInAppBrowser;
 };
 
+/**
+ * Gets the breakout for an in-app visitor who should land in the
+ * destination's native app, or null to run the plain breakout
+ * - Android: a single navigation to the app's intent, whose
+ *   browser_fallback_url sends visitors without the app to the web URL,
+ *   so no timed retry has to run outside the tap's user activation
+ * - iOS: the plain breakout already opens the https URL, which iOS hands
+ *   to the app through its universal link when the app is installed
+ */
+const getAppBreakoutStrategy = (url: string, env: EnvironmentInfo, strategy: BreakoutStrategy): BreakoutStrategy | null => {
+  if (env.os !== OSType.ANDROID) {
+    return null;
+  }
+  const appUrl = getAppUrl(url, env.os);
+  if (!appUrl) {
+    return null;
+  }
+  return {
+    ...strategy,
+    id: `app+${strategy.id}`,
+    // The timeout only decides whether the bridge shows its manual steps
+    attempts: [{ method: 'location', targetUrl: appUrl, timeout: DEEP_LINK_TIMEOUT_MS }]
+  };
+};
+
 /**
  * Attempts to open a URL in the system browser
  * This function should only be called after user interaction (button tap)
+ * Destinations blocked by the safety policy are never opened
+ *
+ * The way out of each in-app browser comes from the breakout strategy
+ * registry (see utils/breakout.ts); the result says which strategy ran.
+ * With openInApp, the native app is opened instead where the platform can
+ * fall back to the web by itself (see getAppBreakoutStrategy).
  */
-export const openInSystemBrowser = (url: string): void => {
-  const env = detectEnvironment();
-  
-  if (env.os === OSType.ANDROID && env.isInAppBrowser) {
-    // Android: Use intent to open in Chrome
-    const intent = generateAndroidIntent(url);
-    window.location.href = intent;
-    
-    // Fallback after delay
-    setTimeout(() => {
-      window.open(url, '_blank');
-    }, 2500);
-  } else if (env.os === OSType.IOS && env.isInAppBrowser) {
-    // iOS + in-app browser: Use dynamically created anchor element
-    // This allows Instagram's native "You're leaving our app" dialog to appear naturally
-    // and ensures iOS users reach SafariViewController reliably
-    const anchor = document.createElement('a');
-    anchor.href = url;
-    anchor.target = '_blank';
-    anchor.rel = 'noopener noreferrer';
-    anchor.style.display = 'none';
-    
-    // Append to body temporarily
-    document.body.appendChild(anchor);
-    
-    // Trigger click (must be in user gesture context)
-    anchor.click();
-    
-    // Clean up after a short delay
-    setTimeout(() => {
-      document.body.removeChild(anchor);
-    }, 100);
-  } else if (env.os === OSType.IOS) {
-    // iOS in real browser: standard open
-    window.open(url, '_blank', 'noopener,noreferrer');
-  } else {
-    // Desktop or other: standard open
-    window.open(url, '_blank', 'noopener,noreferrer');
+export const openInSystemBrowser = (url: string, options: OpenOptions = {}): Promise<BreakoutResult> => {
+  if (!isNavigable(url)) {
+    console.warn('Refusing to open blocked destination');
+    return Promise.resolve({ strategy: 'blocked', method: null, left: false });
+  }
+  if (options.tags) {
+    url = tagDestination(url, options.tags);
   }
+
+  const env = options.env || detectEnvironment();
+  const strategy = resolveBreakoutStrategy(env);
+  const appStrategy = options.openInApp ? getAppBreakoutStrategy(url, env, strategy) : null;
+  return runBreakoutStrategy(url, appStrategy || strategy);
 };
 
 /**
  * Redirects immediately (for real browsers)
+ * Destinations blocked by the safety policy are never opened
+ * With openInApp, the native app is tried first, then the web URL
  */
-export const redirectImmediately = (url: string): void => {
+export const redirectImmediately = (url: string, options: OpenOptions = {}): void => {
+  if (!isNavigable(url)) {
+    console.warn('Refusing to redirect to blocked destination');
+    return;
+  }
+  if (options.tags) {
+    url = tagDestination(url, options.tags);
+  }
+
+  const appUrl = options.openInApp ? getAppUrl(url, (options.env || detectEnvironment()).os) : null;
+  if (appUrl) {
+    window.location.href = appUrl;
+    // App not installed (or the scheme was refused): fall back to the web URL
+    waitForPageExit(DEEP_LINK_TIMEOUT_MS).then(left => {
+      if (!left) {
+        window.location.href = url;
+      }
+    });
+    return;
+  }
+
   window.location.href = url;
 };
@@ -0,0 +1,158 @@
+/**
+ * Destination Safety Utilities
+ * Decides whether a visitor may be sent to a destination URL
+ * Every outbound navigation (redirects and browser breakouts) goes through here
+ */
+
+import { config, SafetyConfig } from './config';
+
+export type SafetyAction = 'allow' | 'warn' | 'block';
+
+export type SafetyReason =
+  | 'invalid_url' // Not an absolute URL
+  | 'scheme' // javascript:, data:, file:, etc.
+  | 'blocked_domain' // On the deny list
+  | 'not_allowed_domain' // Allow list is set and the host is not on it
+  | 'credentials' // user:pass@host, a classic way to disguise the real host
+  | 'ip_host' // Raw IPv4/IPv6 address instead of a domain
+  | 'lookalike' // Punycode or close misspelling of a well-known domain
+  | 'tampered'; // Signed link modified after signing (set by the Viewer)
+
+export interface SafetyVerdict {
+  action: SafetyAction;
+  url: string;
+  host?: string;
+  reason?: SafetyReason;
+  message?: string;
+}
+
+const IPV4_HOST_REGEX = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+// Only compare brand names long enough that a small edit is suspicious
+const MIN_LOOKALIKE_LABEL_LENGTH = 5;
+
+// Edits allowed per this many characters of the brand name, so short
+// brands only match near-exact misspellings (apple vs maple is 2 edits)
+const CHARS_PER_LOOKALIKE_EDIT = 4;
+
+/**
+ * Checks if a host is the given domain or one of its subdomains
+ */
+const matchesDomain = (host: string, domain: string): boolean => {
+  const d = domain.toLowerCase().replace(/^\*?\./, '');
+  return host === d || host.endsWith(`.${d}`);
+};
+
+/**
+ * Levenshtein distance between two short strings
+ */
+const editDistance = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+};
+
+/**
+ * Finds the protected domain a host imitates, if any
+ * Catches misspellings (paypa1.com) and brand names in foreign hosts (paypal.com-login.io)
+ * Hosts on any protected domain, official aliases included (youtu.be), never match.
+ */
+const findImitatedDomain = (host: string, protectedDomains: string[]): string | null => {
+  if (protectedDomains.some(domain => matchesDomain(host, domain))) {
+    return null;
+  }
+  const labels = host.split('.');
+  // Naive registrable label: the one right before the TLD
+  const siteLabel = labels.length >= 2 ? labels[labels.length - 2] : labels[0];
+  const tokens = host.split(/[.-]/);
+
+  for (const domain of protectedDomains) {
+    const brand = domain.toLowerCase().split('.')[0];
+    if (brand.length < MIN_LOOKALIKE_LABEL_LENGTH) {
+      continue;
+    }
+    // Regional sites of the brand itself (amazon.de, google.co.uk)
+    const brandIndex = labels.indexOf(brand);
+    if (brandIndex !== -1 && brandIndex < labels.length - 1 && labels.slice(brandIndex + 1).every(l => l.length <= 3)) {
+      continue;
+    }
+    const distance = editDistance(siteLabel, brand);
+    if (distance > 0 && distance <= Math.floor(brand.length / CHARS_PER_LOOKALIKE_EDIT)) {
+      return domain;
+    }
+    if (tokens.includes(brand)) {
+      return domain;
+    }
+  }
+  return null;
+};
+
+/**
+ * Evaluates a destination URL against the safety policy
+ * - block: never navigate (dangerous scheme, deny list, allow list miss)
+ * - warn: navigate only after the visitor confirms an interstitial
+ * - allow: navigate normally
+ */
+export const evaluateDestination = (url: string, policy: SafetyConfig = config.safety): SafetyVerdict => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return { action: 'block', url, reason: 'invalid_url', message: 'This destination is not a valid web address.' };
+  }
+
+  const scheme = parsed.protocol.replace(/:$/, '').toLowerCase();
+  if (!policy.allowedSchemes.map(s => s.toLowerCase()).includes(scheme)) {
+    return { action: 'block', url, reason: 'scheme', message: `Links using "${scheme}:" are not allowed.` };
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+
+  if (policy.blockedDomains.some(d => matchesDomain(host, d))) {
+    return { action: 'block', url, host, reason: 'blocked_domain', message: 'This destination has been blocked.' };
+  }
+
+  if (policy.allowedDomains.length > 0 && !policy.allowedDomains.some(d => matchesDomain(host, d))) {
+    return { action: 'block', url, host, reason: 'not_allowed_domain', message: 'This destination is not on the list of allowed sites.' };
+  }
+
+  if (parsed.username || parsed.password) {
+    return { action: 'warn', url, host, reason: 'credentials', message: 'This link hides its real destination behind a login prefix.' };
+  }
+
+  if (policy.warnOnIpHosts && (IPV4_HOST_REGEX.test(host) || host.startsWith('['))) {
+    return { action: 'warn', url, host, reason: 'ip_host', message: 'This link goes to a raw IP address instead of a named website.' };
+  }
+
+  if (policy.warnOnLookalikes) {
+    if (host.split('.').some(label => label.startsWith('xn--'))) {
+      return { action: 'warn', url, host, reason: 'lookalike', message: 'This website name uses characters that can imitate other sites.' };
+    }
+    const imitated = findImitatedDomain(host, policy.protectedDomains);
+    if (imitated) {
+      return { action: 'warn', url, host, reason: 'lookalike', message: `This website looks similar to ${imitated} but is not it.` };
+    }
+  }
+
+  return { action: 'allow', url, host };
+};
+
+/**
+ * Checks if a destination may be navigated to at all
+ * Warnings are allowed here; the interstitial is the caller's job
+ */
+export const isNavigable = (url: string): boolean => {
+  return evaluateDestination(url).action !== 'block';
+};
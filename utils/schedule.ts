@@ -0,0 +1,65 @@
+/**
+ * Schedule Utilities
+ * Activation windows (notBefore / notAfter) for links and bio entries
+ * Timestamps are epoch milliseconds, checked against the visitor's clock
+ */
+
+export type WindowStatus = 'active' | 'pending' | 'expired';
+
+export interface Scheduled {
+  notBefore?: number;
+  notAfter?: number;
+}
+
+/**
+ * Gets where `now` falls relative to an item's activation window
+ */
+export const getWindowStatus = (item: Scheduled, now: number = Date.now()): WindowStatus => {
+  if (typeof item.notBefore === 'number' && now < item.notBefore) {
+    return 'pending';
+  }
+  if (typeof item.notAfter === 'number' && now >= item.notAfter) {
+    return 'expired';
+  }
+  return 'active';
+};
+
+/**
+ * Checks if an item is inside its activation window
+ */
+export const isWithinWindow = (item: Scheduled, now: number = Date.now()): boolean => {
+  return getWindowStatus(item, now) === 'active';
+};
+
+/**
+ * Converts a timestamp to the value format of <input type="datetime-local">
+ */
+export const toDateTimeLocal = (timestamp?: number): string => {
+  if (typeof timestamp !== 'number') {
+    return '';
+  }
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Converts an <input type="datetime-local"> value (local time) to a timestamp
+ */
+export const fromDateTimeLocal = (value: string): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const timestamp = new Date(value).getTime();
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+};
+
+/**
+ * Formats a timestamp for visitors, in their own locale and timezone
+ */
+export const formatScheduleTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short'
+  });
+};
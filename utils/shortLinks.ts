@@ -0,0 +1,174 @@
+/**
+ * Short Link Utilities
+ * Optional short-link layer: a link's encoded payload (its `p` value) is
+ * stored under a short code, and `/s/<code>` stands in for the full link.
+ *
+ * Storage goes through the ShortLinkStore adapter. The HTTP adapter talks to
+ * the reference server (server/shortLinkServer.ts) or anything serving the
+ * same API; a hosted store only needs another adapter.
+ *
+ * Encrypted payloads are stored as they are and the key stays in the short
+ * link's fragment (`#k=`), so the store never sees anything it could unlock.
+ */
+
+import { config } from './config';
+
+export interface ShortLinkRecord {
+  code: string;
+  payload: string; // Encoded payload, exactly as it appears in `p`
+  createdAt: number;
+}
+
+export interface ShortLinkStore {
+  // Stores an encoded payload and resolves to its short code
+  shorten: (payload: string) => Promise<string>;
+  // Resolves to the stored record, or null if the code is unknown
+  resolve: (code: string) => Promise<ShortLinkRecord | null>;
+}
+
+// No 0/O/o or 1/I/i/l: codes get read aloud and typed from screenshots
+export const SHORT_CODE_ALPHABET = '23456789abcdefghjkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export const SHORT_CODE_LENGTH = 7;
+
+// Longest encoded payload a store accepts (characters)
+export const MAX_SHORT_LINK_PAYLOAD = 64 * 1024;
+
+// Codes other stores hand out may use a different alphabet or length
+const SHORT_CODE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Errors from a short-link store, so callers can tell them apart from
+ * signing or encryption failures
+ */
+export const shortLinkError = (message: string): Error => {
+  const error = new Error(message);
+  error.name = 'ShortLinkError';
+  return error;
+};
+
+export const isShortLinkError = (e: unknown): boolean =>
+  e instanceof Error && e.name === 'ShortLinkError';
+
+/**
+ * Checks that a string can be a short code
+ */
+export const isShortCode = (code: unknown): code is string =>
+  typeof code === 'string' && SHORT_CODE_PATTERN.test(code);
+
+/**
+ * Generates a random short code
+ * Bytes past the last whole multiple of the alphabet are dropped so every
+ * character is equally likely.
+ */
+export const generateShortCode = (length: number = SHORT_CODE_LENGTH): string => {
+  const limit = 256 - (256 % SHORT_CODE_ALPHABET.length);
+  let code = '';
+  while (code.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length * 2))) {
+      if (byte < limit && code.length < length) {
+        code += SHORT_CODE_ALPHABET[byte % SHORT_CODE_ALPHABET.length];
+      }
+    }
+  }
+  return code;
+};
+
+/**
+ * Store that keeps records in memory
+ * `onChange` gets every record after each new one, for callers that persist them.
+ * Shortening the same payload twice returns the same code.
+ */
+export const createMemoryShortLinkStore = (
+  records: ShortLinkRecord[] = [],
+  onChange?: (records: ShortLinkRecord[]) => void
+): ShortLinkStore => {
+  const byCode = new Map<string, ShortLinkRecord>();
+  const byPayload = new Map<string, string>();
+  records.forEach(record => {
+    byCode.set(record.code, record);
+    byPayload.set(record.payload, record.code);
+  });
+
+  return {
+    shorten: async (payload: string) => {
+      const existing = byPayload.get(payload);
+      if (existing) {
+        return existing;
+      }
+      let code = generateShortCode();
+      while (byCode.has(code)) {
+        code = generateShortCode();
+      }
+      const record: ShortLinkRecord = { code, payload, createdAt: Date.now() };
+      byCode.set(code, record);
+      byPayload.set(payload, code);
+      if (onChange) {
+        onChange(Array.from(byCode.values()));
+      }
+      return code;
+    },
+    resolve: async (code: string) => byCode.get(code) || null
+  };
+};
+
+/**
+ * Store backed by a short-link service over HTTP
+ *
+ * API (relative to `endpoint`):
+ * - POST /links { payload } -> 201 { code }
+ * - GET /links/<code> -> 200 ShortLinkRecord, or 404
+ */
+export const createHttpShortLinkStore = (endpoint: string): ShortLinkStore => {
+  const base = endpoint.replace(/\/+$/, '');
+
+  const request = async (path: string, init?: RequestInit): Promise<Response> => {
+    try {
+      return await fetch(`${base}${path}`, init);
+    } catch (e) {
+      throw shortLinkError('The short-link service could not be reached');
+    }
+  };
+
+  return {
+    shorten: async (payload: string) => {
+      const response = await request('/links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ payload })
+      });
+      if (!response.ok) {
+        throw shortLinkError(`The short-link service refused the link (HTTP ${response.status})`);
+      }
+      const data = await response.json().catch(() => null);
+      if (!data || !isShortCode(data.code)) {
+        throw shortLinkError('The short-link service sent back an invalid code');
+      }
+      return data.code;
+    },
+    resolve: async (code: string) => {
+      if (!isShortCode(code)) {
+        return null;
+      }
+      const response = await request(`/links/${encodeURIComponent(code)}`);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw shortLinkError(`The short-link service failed (HTTP ${response.status})`);
+      }
+      const data = await response.json().catch(() => null);
+      if (!data || typeof data.payload !== 'string') {
+        throw shortLinkError('The short-link service sent back an invalid record');
+      }
+      return { code, payload: data.payload, createdAt: Number(data.createdAt) || 0 };
+    }
+  };
+};
+
+/**
+ * Gets the store this deployment is configured with (see config.shortLinks),
+ * or null if short links are turned off
+ */
+export const getShortLinkStore = (): ShortLinkStore | null =>
+  config.shortLinks.endpoint ? createHttpShortLinkStore(config.shortLinks.endpoint) : null;
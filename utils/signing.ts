@@ -0,0 +1,163 @@
+/**
+ * Payload Signing Utilities
+ * ECDSA (P-256, SHA-256) signatures via WebCrypto so links can't be edited
+ * and passed off as the creator's. Creators hold the private key in the
+ * Dashboard; the Viewer checks signatures against keys trusted in config.
+ */
+
+import { config, TrustedSigningKey } from './config';
+import { fromBase64Url, toBase64Url } from './base64url';
+import type { LinkPayload } from './payload';
+
+export interface PayloadSignature {
+  kid: string; // Key id of the signing key
+  value: string; // base64url ECDSA signature
+}
+
+export interface SigningKey {
+  kid: string;
+  publicKey: string; // base64url SPKI, what goes into config.signing.trustedKeys
+  privateKey: JsonWebKey;
+  createdAt: number;
+}
+
+export type SignatureStatus =
+  | 'unsigned' // No signature on the payload
+  | 'verified' // Signed by a trusted key and untouched
+  | 'invalid' // Signed by a trusted key but modified since
+  | 'unknown_key' // Signed by a key this build doesn't trust
+  | 'unsupported'; // WebCrypto unavailable (e.g. insecure context)
+
+export interface SignatureCheck {
+  status: SignatureStatus;
+  key?: TrustedSigningKey;
+}
+
+const ECDSA_KEY_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+const SIGNING_KEY_STORAGE_KEY = 'paralink.signingKey';
+
+/**
+ * Serializes a value as JSON with sorted object keys
+ * Signatures cover this form so key order in the link doesn't matter
+ */
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Bytes covered by the signature: the canonical payload without `sig`
+ */
+const signedBytes = (payload: LinkPayload): Uint8Array<ArrayBuffer> => {
+  const { sig, ...unsigned } = payload;
+  return new TextEncoder().encode(canonicalize(unsigned));
+};
+
+const isWebCryptoAvailable = (): boolean =>
+  typeof crypto !== 'undefined' && !!crypto.subtle;
+
+/**
+ * Generates a new signing key pair for the creator
+ */
+export const generateSigningKey = async (): Promise<SigningKey> => {
+  const pair = await crypto.subtle.generateKey(ECDSA_KEY_PARAMS, true, ['sign', 'verify']);
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', spki));
+
+  return {
+    kid: toBase64Url(digest).slice(0, 8),
+    publicKey: toBase64Url(spki),
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+    createdAt: Date.now()
+  };
+};
+
+/**
+ * Loads the creator's signing key from localStorage
+ */
+export const loadSigningKey = (): SigningKey | null => {
+  try {
+    const stored = localStorage.getItem(SIGNING_KEY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Saves (or with null, forgets) the creator's signing key in localStorage
+ */
+export const saveSigningKey = (key: SigningKey | null): void => {
+  if (key) {
+    localStorage.setItem(SIGNING_KEY_STORAGE_KEY, JSON.stringify(key));
+  } else {
+    localStorage.removeItem(SIGNING_KEY_STORAGE_KEY);
+  }
+};
+
+/**
+ * Returns a copy of the payload carrying a signature from the given key
+ */
+export const signPayload = async (payload: LinkPayload, key: SigningKey): Promise<LinkPayload> => {
+  const privateKey = await crypto.subtle.importKey('jwk', key.privateKey, ECDSA_KEY_PARAMS, false, ['sign']);
+  const { sig, ...unsigned } = payload;
+  const signature = await crypto.subtle.sign(ECDSA_SIGN_PARAMS, privateKey, signedBytes(unsigned));
+
+  return {
+    ...unsigned,
+    sig: { kid: key.kid, value: toBase64Url(new Uint8Array(signature)) }
+  };
+};
+
+/**
+ * Checks a payload's signature against the trusted keys
+ */
+export const verifyPayload = async (
+  payload: LinkPayload,
+  trustedKeys: TrustedSigningKey[] = config.signing.trustedKeys
+): Promise<SignatureCheck> => {
+  if (!payload.sig) {
+    return { status: 'unsigned' };
+  }
+
+  const key = trustedKeys.find(k => k.kid === payload.sig!.kid);
+  if (!key) {
+    return { status: 'unknown_key' };
+  }
+
+  if (!isWebCryptoAvailable()) {
+    return { status: 'unsupported', key };
+  }
+
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      fromBase64Url(key.publicKey),
+      ECDSA_KEY_PARAMS,
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      ECDSA_SIGN_PARAMS,
+      publicKey,
+      fromBase64Url(payload.sig.value),
+      signedBytes(payload)
+    );
+    return { status: valid ? 'verified' : 'invalid', key };
+  } catch (e) {
+    // Malformed signature bytes count as tampering
+    return { status: 'invalid', key };
+  }
+};
@@ -0,0 +1,75 @@
+/**
+ * Simulated Environments
+ * Sample visitors for previewing links as they appear in other apps
+ *
+ * Each entry is a real-world user agent run through detectEnvironment(),
+ * so previews follow the same detection rules as live visitors.
+ */
+
+import { detectEnvironment, EnvironmentInfo } from './environment';
+
+export interface SimulatedEnvironment {
+  id: string;
+  label: string;
+  userAgent: string;
+  maxTouchPoints: number;
+}
+
+export const SIMULATED_ENVIRONMENTS: SimulatedEnvironment[] = [
+  {
+    id: 'ios-instagram',
+    label: 'iOS · Instagram',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 Instagram 326.0.3.29.91 (iPhone15,3; iOS 17_4; en_US; en; scale=3.00; 1290x2796; 587403410)',
+    maxTouchPoints: 5
+  },
+  {
+    id: 'android-tiktok',
+    label: 'Android · TikTok',
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 8 Build/AP1A.240405.002; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/123.0.6312.118 Mobile Safari/537.36 trill_340003 JsSdk/1.0 NetType/WIFI Channel/googleplay AppName/trill app_version/34.0.3 ByteLocale/en ByteFullLocale/en Region/US',
+    maxTouchPoints: 5
+  },
+  {
+    id: 'ios-tiktok',
+    label: 'iOS · TikTok',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 musical_ly_34.0.0 JsSdk/2.0 NetType/WIFI Channel/App Store ByteLocale/en Region/US',
+    maxTouchPoints: 5
+  },
+  {
+    id: 'android-instagram',
+    label: 'Android · Instagram',
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; SM-S918B Build/UP1A.231005.007; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/123.0.6312.99 Mobile Safari/537.36 Instagram 326.0.0.42.90 Android (34/14; 480dpi; 1080x2340; samsung; SM-S918B; dm3q; qcom; en_US; 587403410)',
+    maxTouchPoints: 5
+  },
+  {
+    id: 'ios-facebook',
+    label: 'iOS · Facebook',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 [FBAN/FBIOS;FBAV/458.0.0.40.108;FBBV/580478632;FBDV/iPhone15,3;FBMD/iPhone;FBSN/iOS;FBSV/17.4;FBSS/3;FBID/phone;FBLC/en_US;FBOP/5]',
+    maxTouchPoints: 5
+  },
+  {
+    id: 'ios-safari',
+    label: 'iOS · Safari',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+    maxTouchPoints: 5
+  },
+  {
+    id: 'android-chrome',
+    label: 'Android · Chrome',
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.6312.118 Mobile Safari/537.36',
+    maxTouchPoints: 5
+  },
+  {
+    id: 'desktop-chrome',
+    label: 'Desktop · Chrome',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36',
+    maxTouchPoints: 0
+  }
+];
+
+/**
+ * Gets the EnvironmentInfo of a simulated environment
+ */
+export const getSimulatedEnvironment = (id: string): EnvironmentInfo => {
+  const simulated = SIMULATED_ENVIRONMENTS.find(s => s.id === id) || SIMULATED_ENVIRONMENTS[0];
+  return detectEnvironment(simulated.userAgent, simulated.maxTouchPoints);
+};
@@ -0,0 +1,144 @@
+/**
+ * Smart Routing Utilities
+ * Picks a smart link's destination from an ordered list of rules
+ *
+ * Rules are checked in order; the first one whose conditions all match wins.
+ * If none match, the payload's `url` is the default destination.
+ * Everything runs client-side from the user agent, navigator.language and
+ * the local clock, so there is no country lookup: the country is the region
+ * of the browser language (en-GB → GB).
+ */
+
+import { detectEnvironment, EnvironmentInfo, OSType } from './environment';
+import type { LinkPayload } from './payload';
+import { resolveSplitRoute } from './split';
+
+export interface SmartConditions {
+  // All set conditions must match (omitted = any)
+  os?: OSType;
+  inApp?: boolean;
+  appName?: string; // e.g. 'Instagram', as reported by detectEnvironment
+  language?: string; // Prefix of the browser language, e.g. 'de' or 'pt-BR'
+  country?: string; // Region of the browser language, e.g. 'US'
+  fromHour?: number; // Local hour 0-23, inclusive
+  toHour?: number; // Local hour 1-24, exclusive; wraps past midnight if <= fromHour
+}
+
+export interface SmartRule {
+  when: SmartConditions;
+  url: string;
+  label?: string; // Creator's note, e.g. 'iPhone users'
+}
+
+export interface RoutingContext {
+  env: EnvironmentInfo;
+  language: string; // BCP 47 tag, e.g. 'en-US'
+  hour: number; // Local hour 0-23
+}
+
+export interface SmartRoute {
+  url: string;
+  ruleIndex: number | null; // Matching rule, or null for the default
+}
+
+/**
+ * Reads the browser language, safely outside the browser
+ */
+const getLanguage = (): string => {
+  if (typeof navigator === 'undefined') {
+    return '';
+  }
+  return navigator.language || '';
+};
+
+/**
+ * Gets the region of a language tag ('en-US' → 'US', 'zh-Hant-TW' → 'TW')
+ */
+export const getCountry = (language: string): string | null => {
+  const region = language.split(/[-_]/).slice(1).find(part => /^(?:[a-z]{2}|\d{3})$/i.test(part));
+  return region ? region.toUpperCase() : null;
+};
+
+/**
+ * Builds the routing context for the current visitor
+ * Pass values to test rules against an environment other than this one
+ */
+export const getRoutingContext = (
+  env: EnvironmentInfo = detectEnvironment(),
+  language: string = getLanguage(),
+  now: Date = new Date()
+): RoutingContext => ({
+  env,
+  language,
+  hour: now.getHours()
+});
+
+/**
+ * Checks if the language tag starts with the given prefix, on subtag boundaries
+ * ('pt' matches 'pt-BR', 'pt-BR' doesn't match 'pt')
+ */
+const matchesLanguage = (language: string, prefix: string): boolean => {
+  const lang = language.toLowerCase().replace(/_/g, '-');
+  const p = prefix.toLowerCase().replace(/_/g, '-');
+  return lang === p || lang.startsWith(`${p}-`);
+};
+
+/**
+ * Checks if the hour falls within [fromHour, toHour)
+ */
+const matchesHours = (hour: number, fromHour: number = 0, toHour: number = 24): boolean => {
+  if (fromHour < toHour) {
+    return hour >= fromHour && hour < toHour;
+  }
+  // Overnight window, e.g. 22 → 6
+  return hour >= fromHour || hour < toHour;
+};
+
+/**
+ * Checks if all of a rule's conditions hold in a context
+ */
+export const matchesConditions = (when: SmartConditions, context: RoutingContext): boolean => {
+  const { env } = context;
+  if (when.os && when.os !== env.os) return false;
+  if (when.inApp !== undefined && when.inApp !== env.isInAppBrowser) return false;
+  if (when.appName && when.appName.toLowerCase() !== env.appName.toLowerCase()) return false;
+  if (when.language && !matchesLanguage(context.language, when.language)) return false;
+  if (when.country && getCountry(context.language) !== when.country.toUpperCase()) return false;
+  if (when.fromHour !== undefined || when.toHour !== undefined) {
+    if (!matchesHours(context.hour, when.fromHour, when.toHour)) return false;
+  }
+  return true;
+};
+
+/**
+ * Picks the destination of a smart payload: the first matching rule,
+ * otherwise the default `url`
+ */
+export const resolveSmartRoute = (payload: LinkPayload, context: RoutingContext = getRoutingContext()): SmartRoute => {
+  const rules = payload.rules || [];
+  const ruleIndex = rules.findIndex(rule => matchesConditions(rule.when, context));
+  if (ruleIndex === -1) {
+    return { url: payload.url || '', ruleIndex: null };
+  }
+  return { url: rules[ruleIndex].url, ruleIndex };
+};
+
+/**
+ * Gets where a direct, smart or split payload sends the visitor
+ * `stickyVariants` remembers the split variant per visitor (see utils/split.ts)
+ * Returns undefined for bio pages
+ */
+export const resolveDestination = (
+  payload: LinkPayload,
+  context?: RoutingContext,
+  stickyVariants: boolean = true
+): string | undefined => {
+  if (payload.mode === 'smart') {
+    return resolveSmartRoute(payload, context).url;
+  }
+  if (payload.mode === 'split') {
+    const route = resolveSplitRoute(payload, stickyVariants);
+    return route ? route.url : undefined;
+  }
+  return payload.mode === 'direct' ? payload.url : undefined;
+};
@@ -0,0 +1,72 @@
+/**
+ * Social Profile Utilities
+ * Recognizes the platform of a profile URL for the bio page icon row
+ */
+
+export type SocialPlatform =
+  | 'instagram'
+  | 'tiktok'
+  | 'youtube'
+  | 'x'
+  | 'threads'
+  | 'facebook'
+  | 'linkedin'
+  | 'github'
+  | 'twitch'
+  | 'spotify'
+  | 'discord'
+  | 'telegram'
+  | 'whatsapp'
+  | 'snapchat'
+  | 'pinterest'
+  | 'reddit'
+  | 'website'; // Anything unrecognized
+
+interface SocialRule {
+  platform: SocialPlatform;
+  label: string;
+  hosts: string[]; // Matches the host and its subdomains
+}
+
+const SOCIAL_RULES: SocialRule[] = [
+  { platform: 'instagram', label: 'Instagram', hosts: ['instagram.com', 'instagr.am'] },
+  { platform: 'tiktok', label: 'TikTok', hosts: ['tiktok.com'] },
+  { platform: 'youtube', label: 'YouTube', hosts: ['youtube.com', 'youtu.be'] },
+  { platform: 'x', label: 'X', hosts: ['x.com', 'twitter.com'] },
+  { platform: 'threads', label: 'Threads', hosts: ['threads.net', 'threads.com'] },
+  { platform: 'facebook', label: 'Facebook', hosts: ['facebook.com', 'fb.com', 'fb.me'] },
+  { platform: 'linkedin', label: 'LinkedIn', hosts: ['linkedin.com'] },
+  { platform: 'github', label: 'GitHub', hosts: ['github.com'] },
+  { platform: 'twitch', label: 'Twitch', hosts: ['twitch.tv'] },
+  { platform: 'spotify', label: 'Spotify', hosts: ['spotify.com'] },
+  { platform: 'discord', label: 'Discord', hosts: ['discord.gg', 'discord.com'] },
+  { platform: 'telegram', label: 'Telegram', hosts: ['t.me', 'telegram.me'] },
+  { platform: 'whatsapp', label: 'WhatsApp', hosts: ['wa.me', 'whatsapp.com'] },
+  { platform: 'snapchat', label: 'Snapchat', hosts: ['snapchat.com'] },
+  { platform: 'pinterest', label: 'Pinterest', hosts: ['pinterest.com', 'pin.it'] },
+  { platform: 'reddit', label: 'Reddit', hosts: ['reddit.com'] }
+];
+
+export interface SocialProfile {
+  platform: SocialPlatform;
+  label: string; // e.g. 'Instagram', or the host for websites
+  url: string;
+}
+
+/**
+ * Detects the platform of a profile URL
+ */
+export const detectSocialPlatform = (url: string): SocialProfile => {
+  let host = '';
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return { platform: 'website', label: url, url };
+  }
+
+  const rule = SOCIAL_RULES.find(r => r.hosts.some(h => host === h || host.endsWith(`.${h}`)));
+  if (rule) {
+    return { platform: rule.platform, label: rule.label, url };
+  }
+  return { platform: 'website', label: host.replace(/^www\./, ''), url };
+};
@@ -0,0 +1,102 @@
+/**
+ * Social Preview Utilities
+ * Open Graph / Twitter card tags for shared links, so iMessage, Discord,
+ * X and friends show the link's title and image instead of the generic page
+ *
+ * Crawlers don't run the app, so the tags are injected into index.html on
+ * the server (see server/previewServer.ts).
+ */
+
+import type { LinkPayload } from './payload';
+import { getBioBlocks } from './bioBlocks';
+
+export interface SocialPreview {
+  title: string;
+  description: string;
+  image: string | null;
+}
+
+// Same wording as index.html, for links that can't be read (e.g. encrypted)
+export const DEFAULT_SOCIAL_PREVIEW: SocialPreview = {
+  title: 'ParaLink',
+  description: 'ParaLink - Smart links that reliably open in your browser',
+  image: null
+};
+
+// Longer descriptions get cut off by most apps anyway
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+const getHost = (url: string | undefined): string | null => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Builds the preview for a payload
+ * Title from `title` / `profileName`; bio pages describe themselves with
+ * their first text block and use the avatar when there's no preview image.
+ */
+export const getSocialPreview = (payload: LinkPayload): SocialPreview => {
+  if (payload.mode === 'bio') {
+    const blocks = getBioBlocks(payload);
+    const text = blocks.find(block => block.type === 'text');
+    const avatar = blocks.find(block => block.type === 'avatar');
+    const linkCount = blocks.filter(block => block.type === 'link').length;
+    return {
+      title: payload.profileName || payload.title || DEFAULT_SOCIAL_PREVIEW.title,
+      description: text && text.type === 'text'
+        ? truncate(text.text.replace(/\s+/g, ' ').trim(), MAX_DESCRIPTION_LENGTH)
+        : `${linkCount} ${linkCount === 1 ? 'link' : 'links'}`,
+      image: payload.previewImage || (avatar && avatar.type === 'avatar' ? avatar.url : null)
+    };
+  }
+
+  const host = payload.mode === 'direct' ? getHost(payload.url) : null;
+  return {
+    title: payload.title || payload.profileName || DEFAULT_SOCIAL_PREVIEW.title,
+    description: host ? `Opens ${host} in your browser` : DEFAULT_SOCIAL_PREVIEW.description,
+    image: payload.previewImage || null
+  };
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Renders the og: and twitter: meta tags for a preview
+ * `url` is the canonical address of the shared link.
+ */
+export const renderSocialMetaTags = (preview: SocialPreview, url: string): string => {
+  const tags: [string, string, string][] = [
+    ['property', 'og:type', 'website'],
+    ['property', 'og:url', url],
+    ['property', 'og:title', preview.title],
+    ['property', 'og:description', preview.description],
+    ['name', 'twitter:card', preview.image ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:title', preview.title],
+    ['name', 'twitter:description', preview.description]
+  ];
+  if (preview.image) {
+    tags.push(['property', 'og:image', preview.image], ['name', 'twitter:image', preview.image]);
+  }
+  return tags
+    .map(([attribute, key, content]) => `<meta ${attribute}="${key}" content="${escapeHtml(content)}" />`)
+    .join('\n    ');
+};
+
+/**
+ * Puts a link's preview into the app's index.html: title, description
+ * and social tags (the page itself still boots the app as usual)
+ * Replacements are functions so `$` in link titles is taken literally.
+ */
+export const injectSocialPreview = (html: string, preview: SocialPreview, url: string): string =>
+  html
+    .replace(/<title>[^<]*<\/title>/, () => `<title>${escapeHtml(preview.title)}</title>`)
+    .replace(/<meta name="description" content="[^"]*"\s*\/?>/, () => `<meta name="description" content="${escapeHtml(preview.description)}" />`)
+    .replace('</head>', () => `    ${renderSocialMetaTags(preview, url)}\n  </head>`);
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { pickWeightedVariant, withVariantParam } from './split';
+
+describe('withVariantParam', () => {
+  it('adds the variant to a URL without a query', () => {
+    expect(withVariantParam('https://example.com/landing', 'variant', 'A')).toBe('https://example.com/landing?variant=A');
+  });
+
+  it('appends to an encoded query without re-serializing it', () => {
+    expect(withVariantParam('https://example.com/s?q=a%20b&x=%7E&y=1+2', 'variant', 'B')).toBe(
+      'https://example.com/s?q=a%20b&x=%7E&y=1+2&variant=B'
+    );
+  });
+
+  it('keeps the fragment after the query', () => {
+    expect(withVariantParam('https://example.com/?a=1#top', 'v', 'A')).toBe('https://example.com/?a=1&v=A#top');
+  });
+
+  it('encodes the parameter and variant id', () => {
+    expect(withVariantParam('https://example.com/', 'test group', 'A&B')).toBe('https://example.com/?test%20group=A%26B');
+  });
+
+  it('leaves a parameter the destination already has alone', () => {
+    expect(withVariantParam('https://example.com/?variant=dark', 'variant', 'A')).toBe('https://example.com/?variant=dark');
+  });
+
+  it('returns URLs it cannot parse unchanged', () => {
+    expect(withVariantParam('not a url', 'variant', 'A')).toBe('not a url');
+  });
+});
+
+describe('pickWeightedVariant', () => {
+  const variants = [
+    { id: 'A', url: 'https://example.com/a', weight: 1 },
+    { id: 'B', url: 'https://example.com/b', weight: 3 }
+  ];
+
+  it('picks in proportion to the weights', () => {
+    expect(pickWeightedVariant(variants, 0).id).toBe('A');
+    expect(pickWeightedVariant(variants, 0.24).id).toBe('A');
+    expect(pickWeightedVariant(variants, 0.25).id).toBe('B');
+    expect(pickWeightedVariant(variants, 0.99).id).toBe('B');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Split Link Utilities
+ * Weighted A/B rotation between several destinations
+ *
+ * Each visitor is assigned one variant, weighted at random, and keeps it:
+ * the assignment is stored in localStorage per link, so reloading or
+ * reopening the same link lands on the same page. The variant id is added
+ * to the destination as a query parameter for the landing page's analytics.
+ */
+
+import type { LinkPayload } from './payload';
+
+export interface SplitVariant {
+  id: string; // e.g. 'A', appended to the destination
+  url: string;
+  weight: number; // Relative share of traffic, e.g. 50 / 50 or 1 / 3
+}
+
+export interface SplitRoute {
+  url: string; // Destination with the variant parameter added
+  variant: SplitVariant;
+}
+
+export const DEFAULT_VARIANT_PARAM = 'variant';
+
+const SPLIT_STORAGE_PREFIX = 'paralink.split.';
+
+/**
+ * Hashes a string to a short hex id (FNV-1a, 32 bit)
+ */
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Storage key for a split link's assignment
+ * Derived from the variants, so editing them starts a fresh assignment
+ */
+const getSplitStorageKey = (variants: SplitVariant[]): string =>
+  SPLIT_STORAGE_PREFIX + hashString(JSON.stringify(variants.map(v => [v.id, v.url, v.weight])));
+
+/**
+ * Picks a variant at random in proportion to the weights
+ * `random` is a number in [0, 1), exposed for deterministic callers
+ */
+export const pickWeightedVariant = (variants: SplitVariant[], random: number = Math.random()): SplitVariant => {
+  const total = variants.reduce((sum, v) => sum + Math.max(v.weight, 0), 0);
+  let threshold = random * total;
+  for (const variant of variants) {
+    threshold -= Math.max(variant.weight, 0);
+    if (threshold < 0) {
+      return variant;
+    }
+  }
+  // Rounding at the top end (or all weights 0): the last weighted variant
+  return [...variants].reverse().find(v => v.weight > 0) || variants[variants.length - 1];
+};
+
+/**
+ * Gets this visitor's variant, assigning and remembering one on first visit
+ * Without localStorage (private mode, some webviews) every visit is a fresh pick
+ */
+export const assignVariant = (variants: SplitVariant[]): SplitVariant => {
+  const key = getSplitStorageKey(variants);
+  try {
+    const stored = localStorage.getItem(key);
+    const existing = variants.find(v => v.id === stored && v.weight > 0);
+    if (existing) {
+      return existing;
+    }
+  } catch (e) {
+    // Storage unavailable: fall through to a fresh pick
+  }
+
+  const variant = pickWeightedVariant(variants);
+  try {
+    localStorage.setItem(key, variant.id);
+  } catch (e) {
+    // Not sticky, but still a valid assignment
+  }
+  return variant;
+};
+
+/**
+ * Adds the variant id to a destination's query string
+ * Appended as text so the destination's own query keeps its exact encoding;
+ * a parameter the destination already has is left alone.
+ */
+export const withVariantParam = (url: string, param: string, variantId: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  if (parsed.searchParams.has(param)) {
+    return url;
+  }
+  const extra = `${encodeURIComponent(param)}=${encodeURIComponent(variantId)}`;
+  parsed.search = parsed.search ? `${parsed.search}&${extra}` : extra;
+  return parsed.toString();
+};
+
+/**
+ * Picks the destination of a split payload for this visitor
+ * With sticky off (simulated visitors), the pick is not remembered
+ * Returns null if the payload has no variants
+ */
+export const resolveSplitRoute = (payload: LinkPayload, sticky: boolean = true): SplitRoute | null => {
+  const variants = payload.variants || [];
+  if (variants.length === 0) {
+    return null;
+  }
+  const variant = sticky ? assignVariant(variants) : pickWeightedVariant(variants);
+  return {
+    url: withVariantParam(variant.url, payload.variantParam || DEFAULT_VARIANT_PARAM, variant.id),
+    variant
+  };
+};
@@ -0,0 +1,223 @@
+/**
+ * Bio Page Theme Utilities
+ * Named presets plus per-field overrides for bio page styling
+ *
+ * Payloads stay small: a theme is stored as a preset name and only the
+ * fields that differ from that preset, e.g. { preset: 'sunset', font: 'serif' }.
+ * resolveTheme() fills in the rest. Bio pages without a theme use 'midnight',
+ * the original ParaLink look.
+ */
+
+export type BioBackground =
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; from: string; to: string; angle?: number } // angle in degrees, default 135
+  | { type: 'image'; url: string };
+
+export type ButtonStyle =
+  | 'glass' // Translucent, the original look
+  | 'filled' // Solid accent color
+  | 'outline' // Accent border, transparent fill
+  | 'pill' // Solid accent color, fully rounded
+  | 'shadow'; // Solid accent color with a hard offset shadow
+
+export type ThemeFont = 'sans' | 'serif' | 'mono' | 'rounded';
+
+export interface BioTheme {
+  preset?: string; // Preset the other fields override (default 'midnight')
+  background?: BioBackground;
+  button?: ButtonStyle;
+  font?: ThemeFont;
+  text?: string; // Hex color, e.g. '#ffffff'
+  accent?: string; // Hex color for the avatar, buttons and badges
+}
+
+export type ResolvedTheme = Required<Omit<BioTheme, 'preset'>>;
+
+export const DEFAULT_THEME_PRESET = 'midnight';
+
+export const BUTTON_STYLES: ButtonStyle[] = ['glass', 'filled', 'outline', 'pill', 'shadow'];
+
+export const THEME_FONTS: Record<ThemeFont, string> = {
+  sans: "'Inter', system-ui, sans-serif",
+  serif: "Georgia, 'Times New Roman', serif",
+  mono: "ui-monospace, 'SF Mono', Menlo, Consolas, monospace",
+  rounded: "ui-rounded, 'SF Pro Rounded', 'Nunito', system-ui, sans-serif"
+};
+
+export const THEME_PRESETS: Record<string, ResolvedTheme> = {
+  midnight: {
+    background: { type: 'gradient', from: '#111827', to: '#1f2937' },
+    button: 'glass',
+    font: 'sans',
+    text: '#ffffff',
+    accent: '#14b8a6'
+  },
+  daylight: {
+    background: { type: 'solid', color: '#f9fafb' },
+    button: 'outline',
+    font: 'sans',
+    text: '#111827',
+    accent: '#14b8a6'
+  },
+  sunset: {
+    background: { type: 'gradient', from: '#f97316', to: '#db2777' },
+    button: 'pill',
+    font: 'rounded',
+    text: '#ffffff',
+    accent: '#ffffff'
+  },
+  ocean: {
+    background: { type: 'gradient', from: '#0ea5e9', to: '#1e3a8a', angle: 180 },
+    button: 'glass',
+    font: 'sans',
+    text: '#ffffff',
+    accent: '#7dd3fc'
+  },
+  forest: {
+    background: { type: 'solid', color: '#14532d' },
+    button: 'filled',
+    font: 'serif',
+    text: '#f0fdf4',
+    accent: '#86efac'
+  },
+  paper: {
+    background: { type: 'solid', color: '#fdf6e3' },
+    button: 'shadow',
+    font: 'mono',
+    text: '#1f2937',
+    accent: '#facc15'
+  }
+};
+
+const HEX_COLOR_REGEX = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Checks if a value is a #rgb or #rrggbb color
+ */
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && HEX_COLOR_REGEX.test(value);
+
+/**
+ * Expands a hex color to its RGB channels
+ */
+const hexToRgb = (hex: string): [number, number, number] => {
+  let h = hex.slice(1);
+  if (h.length === 3) {
+    h = h.split('').map(c => c + c).join('');
+  }
+  return [0, 2, 4].map(i => parseInt(h.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+/**
+ * Converts a hex color to rgba() with the given opacity
+ */
+export const withAlpha = (hex: string, alpha: number): string => {
+  const [r, g, b] = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+/**
+ * Gets the WCAG relative luminance of a hex color (0 = black, 1 = white)
+ */
+export const getLuminance = (hex: string): number => {
+  const [r, g, b] = hexToRgb(hex).map(c => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * Picks black or white text for a background color
+ */
+export const contrastColor = (hex: string): string => {
+  return getLuminance(hex) > 0.4 ? '#111827' : '#ffffff';
+};
+
+/**
+ * Fills in a theme from its preset (unknown presets fall back to the default)
+ */
+export const resolveTheme = (theme?: BioTheme | null): ResolvedTheme => {
+  const preset = (theme && theme.preset && THEME_PRESETS[theme.preset]) || THEME_PRESETS[DEFAULT_THEME_PRESET];
+  if (!theme) {
+    return preset;
+  }
+  return {
+    background: theme.background || preset.background,
+    button: theme.button || preset.button,
+    font: theme.font || preset.font,
+    text: theme.text || preset.text,
+    accent: theme.accent || preset.accent
+  };
+};
+
+/**
+ * Drops fields that match the preset, for the smallest payload
+ * Returns null for the unmodified default preset (no theme needed)
+ */
+export const compactTheme = (theme: BioTheme): BioTheme | null => {
+  const presetName = theme.preset && THEME_PRESETS[theme.preset] ? theme.preset : DEFAULT_THEME_PRESET;
+  const preset = THEME_PRESETS[presetName];
+  const compact: BioTheme = presetName === DEFAULT_THEME_PRESET ? {} : { preset: presetName };
+
+  if (theme.background && JSON.stringify(theme.background) !== JSON.stringify(preset.background)) {
+    compact.background = theme.background;
+  }
+  if (theme.button && theme.button !== preset.button) compact.button = theme.button;
+  if (theme.font && theme.font !== preset.font) compact.font = theme.font;
+  if (theme.text && theme.text.toLowerCase() !== preset.text) compact.text = theme.text.toLowerCase();
+  if (theme.accent && theme.accent.toLowerCase() !== preset.accent) compact.accent = theme.accent.toLowerCase();
+
+  return Object.keys(compact).length > 0 ? compact : null;
+};
+
+/**
+ * CSS background for a theme background
+ */
+export const getBackgroundStyle = (background: BioBackground): { background: string } => {
+  if (background.type === 'solid') {
+    return { background: background.color };
+  }
+  if (background.type === 'gradient') {
+    return { background: `linear-gradient(${background.angle ?? 135}deg, ${background.from}, ${background.to})` };
+  }
+  // URL serialization percent-encodes quotes, so the value can't break out of url("")
+  let href = '';
+  try {
+    href = new URL(background.url).href;
+  } catch {
+    href = '';
+  }
+  return { background: href ? `#111827 url("${href}") center / cover no-repeat` : '#111827' };
+};
+
+/**
+ * Inline styles for a bio link button
+ */
+export const getButtonStyle = (theme: ResolvedTheme): { [key: string]: string } => {
+  const { button, text, accent } = theme;
+  switch (button) {
+    case 'filled':
+      return { background: accent, color: contrastColor(accent), borderRadius: '0.75rem' };
+    case 'outline':
+      return { background: 'transparent', color: text, border: `2px solid ${accent}`, borderRadius: '0.75rem' };
+    case 'pill':
+      return { background: accent, color: contrastColor(accent), borderRadius: '9999px' };
+    case 'shadow':
+      return {
+        background: accent,
+        color: contrastColor(accent),
+        border: `2px solid ${text}`,
+        borderRadius: '0.5rem',
+        boxShadow: `4px 4px 0 ${text}`
+      };
+    default:
+      return {
+        background: withAlpha(text, 0.1),
+        color: text,
+        border: `1px solid ${withAlpha(text, 0.1)}`,
+        borderRadius: '0.75rem',
+        backdropFilter: 'blur(12px)'
+      };
+  }
+};
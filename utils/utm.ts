@@ -0,0 +1,74 @@
+/**
+ * UTM Tagging Utilities
+ * Adds a link's UTM settings and forwarded query parameters to its
+ * destinations when the visitor is sent on (see utils/routing.ts)
+ *
+ * Parameters already on a destination are never overwritten, so
+ * hand-tagged URLs keep their values. Forwarded parameters come from the
+ * query the ParaLink was opened with, e.g. `/go/<payload>?ref=newsletter`,
+ * and win over the link's UTM settings.
+ */
+
+export interface UtmParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  content?: string;
+}
+
+export const UTM_FIELDS: (keyof UtmParams)[] = ['source', 'medium', 'campaign', 'content'];
+
+export interface DestinationTags {
+  utm?: UtmParams;
+  passthrough?: string[]; // Incoming query parameters to forward, e.g. ['ref']
+  incoming?: string; // Query string the ParaLink was opened with
+}
+
+// ParaLink's own parameters (payload, key) are never forwarded
+export const RESERVED_PARAMS = ['p', 'k'];
+
+// Names a passthrough rule may list
+const PARAM_NAME_PATTERN = /^[A-Za-z0-9_.\-[\]]{1,64}$/;
+
+/**
+ * Checks that a name can be forwarded as a query parameter
+ */
+export const isPassthroughParam = (name: unknown): name is string =>
+  typeof name === 'string' && PARAM_NAME_PATTERN.test(name) && !RESERVED_PARAMS.includes(name);
+
+/**
+ * Adds the link's UTM settings and forwarded parameters to a destination
+ * Only http(s) URLs are tagged; anything else is returned unchanged.
+ */
+export const tagDestination = (url: string, tags: DestinationTags): string => {
+  let destination: URL;
+  try {
+    destination = new URL(url);
+  } catch (e) {
+    return url;
+  }
+  if (destination.protocol !== 'https:' && destination.protocol !== 'http:') {
+    return url;
+  }
+
+  const added: [string, string][] = [];
+  const add = (name: string, value: string | null | undefined) => {
+    if (value && !destination.searchParams.has(name) && !added.some(([n]) => n === name)) {
+      added.push([name, value]);
+    }
+  };
+
+  const incoming = new URLSearchParams(tags.incoming || '');
+  (tags.passthrough || []).filter(isPassthroughParam).forEach(name => add(name, incoming.get(name)));
+  if (tags.utm) {
+    UTM_FIELDS.forEach(field => add(`utm_${field}`, tags.utm[field] && tags.utm[field].trim()));
+  }
+
+  if (added.length === 0) {
+    return url;
+  }
+  // Appended as text so the destination's own query keeps its exact encoding
+  const extra = new URLSearchParams(added).toString();
+  destination.search = destination.search ? `${destination.search}&${extra}` : extra;
+  return destination.toString();
+};
@@ -0,0 +1,441 @@
+/**
+ * Payload Validation Utilities
+ * Checks decoded data against the LinkPayload schema
+ * Shared by the Viewer (decoded links) and the Dashboard (generated links)
+ */
+
+import type { LinkPayload } from './payload';
+import { OSType } from './environment';
+import { BUTTON_STYLES, isHexColor, THEME_FONTS } from './theme';
+import { BIO_BLOCK_TYPES, MAX_BIO_TEXT_LENGTH } from './bioBlocks';
+import { isPassthroughParam, UTM_FIELDS, UtmParams } from './utm';
+
+export type PayloadErrorKind =
+  | 'missing_param' // No `p` parameter in the URL
+  | 'bad_encoding' // Version prefix, base64 or compression is broken
+  | 'bad_json' // Decoded text is not JSON
+  | 'schema' // JSON does not describe a LinkPayload
+  | 'unknown_short_link' // Short link code is not in the short-link store
+  | 'short_link_unavailable'; // Short-link store could not be reached
+
+export interface PayloadError {
+  kind: PayloadErrorKind;
+  message: string;
+  path?: string; // e.g. 'links[2].url' (schema errors only)
+}
+
+export type PayloadResult =
+  | { ok: true; payload: LinkPayload }
+  | { ok: false; error: PayloadError };
+
+const PAYLOAD_MODES = ['direct', 'bio', 'smart', 'split'];
+
+/**
+ * Builds a failed PayloadResult
+ */
+export const payloadError = (kind: PayloadErrorKind, message: string, path?: string): PayloadResult => ({
+  ok: false,
+  error: path ? { kind, message, path } : { kind, message }
+});
+
+const schemaError = (path: string, message: string): PayloadResult =>
+  payloadError('schema', `${path} ${message}`, path);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks that a value is an absolute URL string
+ * Returns an error message, or null if the value is valid
+ */
+const checkUrl = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return 'must be a non-empty string';
+  }
+  try {
+    new URL(value);
+    return null;
+  } catch {
+    return 'must be an absolute URL';
+  }
+};
+
+/**
+ * Checks that an optional field is a string when present
+ */
+const checkOptionalString = (data: Record<string, unknown>, key: string, path: string): PayloadResult | null => {
+  if (data[key] !== undefined && typeof data[key] !== 'string') {
+    return schemaError(path, 'must be a string');
+  }
+  return null;
+};
+
+/**
+ * Checks optional notBefore / notAfter timestamps
+ * `prefix` is the path of the object holding them ('' for the payload root)
+ */
+const checkSchedule = (data: Record<string, unknown>, prefix: string): PayloadResult | null => {
+  for (const key of ['notBefore', 'notAfter']) {
+    const value = data[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      return schemaError(`${prefix}${key}`, 'must be a timestamp in milliseconds');
+    }
+  }
+  if (typeof data.notBefore === 'number' && typeof data.notAfter === 'number' && data.notBefore >= data.notAfter) {
+    return schemaError(`${prefix}notAfter`, 'must be later than notBefore');
+  }
+  return null;
+};
+
+/**
+ * Checks that an optional field is a boolean when present
+ */
+const checkOptionalBoolean = (data: Record<string, unknown>, key: string, path: string): PayloadResult | null => {
+  if (data[key] !== undefined && typeof data[key] !== 'boolean') {
+    return schemaError(path, 'must be a boolean');
+  }
+  return null;
+};
+
+/**
+ * Validates a single LinkItem
+ */
+const validateLinkItem = (item: unknown, path: string): PayloadResult | null => {
+  if (!isObject(item)) {
+    return schemaError(path, 'must be an object');
+  }
+  if (typeof item.title !== 'string') {
+    return schemaError(`${path}.title`, 'must be a string');
+  }
+  const urlError = checkUrl(item.url);
+  if (urlError) {
+    return schemaError(`${path}.url`, urlError);
+  }
+  return checkOptionalBoolean(item, 'openInApp', `${path}.openInApp`) || checkSchedule(item, `${path}.`);
+};
+
+/**
+ * Checks an optional hour of the day within [min, max]
+ */
+const checkOptionalHour = (data: Record<string, unknown>, key: string, path: string, min: number, max: number): PayloadResult | null => {
+  const value = data[key];
+  if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max)) {
+    return schemaError(path, `must be a whole hour from ${min} to ${max}`);
+  }
+  return null;
+};
+
+/**
+ * Validates bio page blocks
+ */
+const validateBlocks = (blocks: unknown[]): PayloadResult | null => {
+  let avatars = 0;
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    const path = `blocks[${i}]`;
+    if (!isObject(block)) {
+      return schemaError(path, 'must be an object');
+    }
+    if (typeof block.type !== 'string' || !(BIO_BLOCK_TYPES as readonly string[]).includes(block.type)) {
+      return schemaError(`${path}.type`, `must be one of: ${BIO_BLOCK_TYPES.join(', ')}`);
+    }
+
+    let blockError: PayloadResult | null = null;
+    if (block.type === 'avatar') {
+      avatars++;
+      const urlError = avatars > 1 ? 'must not be repeated (one avatar per page)' : checkUrl(block.url);
+      blockError = urlError ? schemaError(`${path}.url`, urlError) : null;
+    } else if (block.type === 'text' || block.type === 'header') {
+      if (typeof block.text !== 'string' || !block.text.trim()) {
+        blockError = schemaError(`${path}.text`, 'must be a non-empty string');
+      } else if (block.text.length > MAX_BIO_TEXT_LENGTH) {
+        blockError = schemaError(`${path}.text`, `must be at most ${MAX_BIO_TEXT_LENGTH} characters`);
+      }
+    } else if (block.type === 'social') {
+      if (!Array.isArray(block.urls) || block.urls.length === 0) {
+        blockError = schemaError(`${path}.urls`, 'must be a non-empty array');
+      } else {
+        for (let j = 0; j < block.urls.length && !blockError; j++) {
+          const urlError = checkUrl(block.urls[j]);
+          blockError = urlError ? schemaError(`${path}.urls[${j}]`, urlError) : null;
+        }
+      }
+    } else if (block.type === 'link') {
+      blockError = validateLinkItem(block, path) || checkOptionalBoolean(block, 'featured', `${path}.featured`);
+    }
+
+    if (blockError) {
+      return blockError;
+    }
+  }
+  return null;
+};
+
+/**
+ * Validates a single SmartRule
+ */
+const validateSmartRule = (rule: unknown, path: string): PayloadResult | null => {
+  if (!isObject(rule)) {
+    return schemaError(path, 'must be an object');
+  }
+  const urlError = checkUrl(rule.url);
+  if (urlError) {
+    return schemaError(`${path}.url`, urlError);
+  }
+  const labelError = checkOptionalString(rule, 'label', `${path}.label`);
+  if (labelError) {
+    return labelError;
+  }
+
+  const when = rule.when;
+  if (!isObject(when)) {
+    return schemaError(`${path}.when`, 'must be an object');
+  }
+  const osValues: unknown[] = Object.values(OSType);
+  if (when.os !== undefined && !osValues.includes(when.os)) {
+    return schemaError(`${path}.when.os`, `must be one of: ${osValues.join(', ')}`);
+  }
+  return (
+    checkOptionalBoolean(when, 'inApp', `${path}.when.inApp`) ||
+    checkOptionalString(when, 'appName', `${path}.when.appName`) ||
+    checkOptionalString(when, 'language', `${path}.when.language`) ||
+    checkOptionalString(when, 'country', `${path}.when.country`) ||
+    checkOptionalHour(when, 'fromHour', `${path}.when.fromHour`, 0, 23) ||
+    checkOptionalHour(when, 'toHour', `${path}.when.toHour`, 1, 24)
+  );
+};
+
+/**
+ * Validates a split link's variants: unique ids, URLs and non-negative weights
+ */
+const validateVariants = (variants: unknown[]): PayloadResult | null => {
+  const ids = new Set<string>();
+  let totalWeight = 0;
+  for (let i = 0; i < variants.length; i++) {
+    const variant = variants[i];
+    const path = `variants[${i}]`;
+    if (!isObject(variant)) {
+      return schemaError(path, 'must be an object');
+    }
+    if (typeof variant.id !== 'string' || !variant.id) {
+      return schemaError(`${path}.id`, 'must be a non-empty string');
+    }
+    if (ids.has(variant.id)) {
+      return schemaError(`${path}.id`, 'must be unique');
+    }
+    ids.add(variant.id);
+    const urlError = checkUrl(variant.url);
+    if (urlError) {
+      return schemaError(`${path}.url`, urlError);
+    }
+    if (typeof variant.weight !== 'number' || !Number.isFinite(variant.weight) || variant.weight < 0) {
+      return schemaError(`${path}.weight`, 'must be a number of 0 or more');
+    }
+    totalWeight += variant.weight;
+  }
+  if (totalWeight <= 0) {
+    return schemaError('variants', 'must have at least one variant with a weight above 0');
+  }
+  return null;
+};
+
+/**
+ * Validates an optional bio page theme
+ */
+const validateTheme = (theme: unknown): PayloadResult | null => {
+  if (!isObject(theme)) {
+    return schemaError('theme', 'must be an object');
+  }
+  // Unknown presets are allowed (they fall back to the default)
+  const presetError = checkOptionalString(theme, 'preset', 'theme.preset');
+  if (presetError) {
+    return presetError;
+  }
+  for (const key of ['text', 'accent']) {
+    if (theme[key] !== undefined && !isHexColor(theme[key])) {
+      return schemaError(`theme.${key}`, 'must be a hex color like #ffffff');
+    }
+  }
+  if (theme.button !== undefined && (typeof theme.button !== 'string' || !(BUTTON_STYLES as readonly string[]).includes(theme.button))) {
+    return schemaError('theme.button', `must be one of: ${BUTTON_STYLES.join(', ')}`);
+  }
+  const fonts = Object.keys(THEME_FONTS);
+  if (theme.font !== undefined && !fonts.includes(theme.font as string)) {
+    return schemaError('theme.font', `must be one of: ${fonts.join(', ')}`);
+  }
+
+  const bg = theme.background;
+  if (bg === undefined) {
+    return null;
+  }
+  if (!isObject(bg)) {
+    return schemaError('theme.background', 'must be an object');
+  }
+  if (bg.type === 'solid') {
+    return isHexColor(bg.color) ? null : schemaError('theme.background.color', 'must be a hex color like #ffffff');
+  }
+  if (bg.type === 'gradient') {
+    for (const key of ['from', 'to']) {
+      if (!isHexColor(bg[key])) {
+        return schemaError(`theme.background.${key}`, 'must be a hex color like #ffffff');
+      }
+    }
+    if (bg.angle !== undefined && (typeof bg.angle !== 'number' || !Number.isFinite(bg.angle))) {
+      return schemaError('theme.background.angle', 'must be a number of degrees');
+    }
+    return null;
+  }
+  if (bg.type === 'image') {
+    const urlError = checkUrl(bg.url) || (/^https:/i.test(bg.url as string) ? null : 'must be an https URL');
+    return urlError ? schemaError('theme.background.url', urlError) : null;
+  }
+  return schemaError('theme.background.type', 'must be one of: solid, gradient, image');
+};
+
+/**
+ * Checks the optional UTM settings and passthrough parameter names
+ */
+const validateTagging = (data: Record<string, unknown>): PayloadResult | null => {
+  if (data.utm !== undefined) {
+    if (!isObject(data.utm)) {
+      return schemaError('utm', 'must be an object');
+    }
+    for (const key of Object.keys(data.utm)) {
+      if (!UTM_FIELDS.includes(key as keyof UtmParams)) {
+        return schemaError(`utm.${key}`, `is not supported (use ${UTM_FIELDS.join(', ')})`);
+      }
+      const fieldError = checkOptionalString(data.utm, key, `utm.${key}`);
+      if (fieldError) {
+        return fieldError;
+      }
+    }
+  }
+  if (data.passthrough !== undefined) {
+    if (!Array.isArray(data.passthrough)) {
+      return schemaError('passthrough', 'must be an array');
+    }
+    const index = data.passthrough.findIndex(name => !isPassthroughParam(name));
+    if (index !== -1) {
+      return schemaError(`passthrough[${index}]`, 'must be a query parameter name other than p or k');
+    }
+  }
+  return null;
+};
+
+/**
+ * Validates unknown data (usually straight from JSON.parse) as a LinkPayload
+ * Returns the typed payload, or a schema error pointing at the offending field
+ */
+export const validatePayload = (data: unknown): PayloadResult => {
+  if (!isObject(data)) {
+    return schemaError('payload', 'must be an object');
+  }
+
+  if (typeof data.mode !== 'string' || !PAYLOAD_MODES.includes(data.mode)) {
+    return schemaError('mode', `must be one of: ${PAYLOAD_MODES.join(', ')}`);
+  }
+
+  const fieldError =
+    checkOptionalString(data, 'title', 'title') ||
+    checkOptionalString(data, 'profileName', 'profileName') ||
+    checkOptionalBoolean(data, 'openInApp', 'openInApp') ||
+    checkOptionalString(data, 'variantParam', 'variantParam') ||
+    checkSchedule(data, '');
+  if (fieldError) {
+    return fieldError;
+  }
+
+  // Link preview image for social apps, fetched by their crawlers
+  if (data.previewImage !== undefined) {
+    const imageError = checkUrl(data.previewImage) || (/^https:/i.test(data.previewImage as string) ? null : 'must be an https URL');
+    if (imageError) {
+      return schemaError('previewImage', imageError);
+    }
+  }
+
+  const taggingError = validateTagging(data);
+  if (taggingError) {
+    return taggingError;
+  }
+
+  // Smart links fall back to `url` when no rule matches
+  if (data.mode === 'direct' || data.mode === 'smart') {
+    const urlError = checkUrl(data.url);
+    if (urlError) {
+      return schemaError('url', urlError);
+    }
+  }
+
+  // Bio pages need links, blocks, or both (blocks win when rendering)
+  const hasBlocks = data.blocks !== undefined;
+  if (data.links !== undefined || (data.mode === 'bio' && !hasBlocks)) {
+    if (!Array.isArray(data.links)) {
+      return schemaError('links', 'must be an array');
+    }
+    if (data.mode === 'bio' && !hasBlocks && data.links.length === 0) {
+      return schemaError('links', 'must contain at least one link');
+    }
+    for (let i = 0; i < data.links.length; i++) {
+      const itemError = validateLinkItem(data.links[i], `links[${i}]`);
+      if (itemError) {
+        return itemError;
+      }
+    }
+  }
+
+  if (hasBlocks) {
+    if (!Array.isArray(data.blocks)) {
+      return schemaError('blocks', 'must be an array');
+    }
+    if (data.mode === 'bio' && data.blocks.length === 0) {
+      return schemaError('blocks', 'must contain at least one block');
+    }
+    const blocksError = validateBlocks(data.blocks);
+    if (blocksError) {
+      return blocksError;
+    }
+  }
+
+  if (data.mode === 'smart' || data.rules !== undefined) {
+    if (!Array.isArray(data.rules)) {
+      return schemaError('rules', 'must be an array');
+    }
+    if (data.mode === 'smart' && data.rules.length === 0) {
+      return schemaError('rules', 'must contain at least one rule');
+    }
+    for (let i = 0; i < data.rules.length; i++) {
+      const ruleError = validateSmartRule(data.rules[i], `rules[${i}]`);
+      if (ruleError) {
+        return ruleError;
+      }
+    }
+  }
+
+  if (data.mode === 'split' || data.variants !== undefined) {
+    if (!Array.isArray(data.variants)) {
+      return schemaError('variants', 'must be an array');
+    }
+    if (data.mode === 'split' && data.variants.length < 2) {
+      return schemaError('variants', 'must contain at least two destinations');
+    }
+    const variantError = validateVariants(data.variants);
+    if (variantError) {
+      return variantError;
+    }
+  }
+
+  if (data.theme !== undefined) {
+    const themeError = validateTheme(data.theme);
+    if (themeError) {
+      return themeError;
+    }
+  }
+
+  if (data.sig !== undefined) {
+    if (!isObject(data.sig) || typeof data.sig.kid !== 'string' || typeof data.sig.value !== 'string') {
+      return schemaError('sig', 'must be an object with string kid and value');
+    }
+  }
+
+  return { ok: true, payload: data as unknown as LinkPayload };
+};